@@ -16,7 +16,13 @@ import ChatScreen from "./screens/ChatScreen";
 import LoginScreen from "./screens/LoginScreen";
 import SignupScreen from "./screens/SignupScreen";
 import SettingsScreen from "./screens/SettingsScreen";
+import ForgotPasswordScreen from "./screens/ForgotPasswordScreen";
+import ResetPasswordScreen from "./screens/ResetPasswordScreen";
+import VerifyEmailScreen from "./screens/VerifyEmailScreen";
 import * as Font from "expo-font";
+import { setupAuthInterceptor } from "./utils/auth";
+
+setupAuthInterceptor();
 
 const { DarkTheme } = adaptNavigationTheme({
   reactNavigationLight: NavigationDefaultTheme,
@@ -52,6 +58,18 @@ const App: React.FC = () => {
             <Stack.Screen name="SignupScreen" component={SignupScreen} />
             <Stack.Screen name="ChatScreen" component={ChatScreen} />
             <Stack.Screen name="SettingsScreen" component={SettingsScreen} />
+            <Stack.Screen
+              name="ForgotPasswordScreen"
+              component={ForgotPasswordScreen}
+            />
+            <Stack.Screen
+              name="ResetPasswordScreen"
+              component={ResetPasswordScreen}
+            />
+            <Stack.Screen
+              name="VerifyEmailScreen"
+              component={VerifyEmailScreen}
+            />
           </Stack.Navigator>
         </NavigationContainer>
       </SafeAreaView>
@@ -3,7 +3,7 @@ import React from "react";
 import { Alert, View } from "react-native";
 import { TextInput, Text, useTheme, Button } from "react-native-paper";
 import { Formik, FormikHelpers, FormikProps } from "formik";
-import * as Yup from "yup";
+import { changeEmailSchema } from "../../shared/schemas/auth.schema";
 import axios from "axios";
 import { getToken } from "../utils/auth";
 import { useNavigation } from "@react-navigation/native";
@@ -13,12 +13,6 @@ interface Form {
   email: string;
 }
 
-const validationSchema = Yup.object().shape({
-  email: Yup.string()
-    .email("Invalid email address")
-    .required("Email is required"),
-});
-
 const EmailChange: React.FC = () => {
   const theme = useTheme();
   const nav = useNavigation();
@@ -39,6 +33,7 @@ const EmailChange: React.FC = () => {
 
       Alert.alert("Success", data.message);
       formik.resetForm();
+      nav.navigate("VerifyEmailScreen" as never);
     } catch (error: any) {
       Alert.alert("Error", getErrorMessage(error));
     }
@@ -47,7 +42,7 @@ const EmailChange: React.FC = () => {
   return (
     <Formik
       initialValues={{ email: "" }}
-      validationSchema={validationSchema}
+      validationSchema={changeEmailSchema}
       onSubmit={handleSubmit}
     >
       {({
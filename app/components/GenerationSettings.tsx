@@ -0,0 +1,146 @@
+import { MaterialCommunityIcons } from "@expo/vector-icons";
+import React, { useEffect, useState } from "react";
+import { Alert, View } from "react-native";
+import { TextInput, Text, Button } from "react-native-paper";
+import { Formik, FormikHelpers, FormikProps } from "formik";
+import { generationSettingsSchema } from "../../shared/schemas/generation.schema";
+import axios from "axios";
+import { getToken } from "../utils/auth";
+import { useNavigation } from "@react-navigation/native";
+import { getErrorMessage } from "../utils/getErrorMessge";
+
+interface Form {
+  temp: string;
+  top_k: string;
+  top_p: string;
+  n_predict: string;
+  repeat_penalty: string;
+}
+
+const FIELDS: { name: keyof Form; label: string }[] = [
+  { name: "temp", label: "Temperature (0 - 2)" },
+  { name: "top_k", label: "Top K (1 - 1000)" },
+  { name: "top_p", label: "Top P (0 - 1)" },
+  { name: "n_predict", label: "Max tokens (1 - 4096)" },
+  { name: "repeat_penalty", label: "Repeat penalty (0 - 2)" },
+];
+
+const EMPTY_FORM: Form = {
+  temp: "",
+  top_k: "",
+  top_p: "",
+  n_predict: "",
+  repeat_penalty: "",
+};
+
+const GenerationSettings: React.FC = () => {
+  const nav = useNavigation();
+  const [initialValues, setInitialValues] = useState<Form>(EMPTY_FORM);
+
+  useEffect(() => {
+    fetchSettings();
+  }, []);
+
+  const fetchSettings = async () => {
+    try {
+      const token = await getToken();
+      if (!token) {
+        nav.navigate("LoginScreen" as never);
+        return;
+      }
+
+      const { data } = await axios.get(
+        "http://localhost:3001/api/users/me/preferences",
+        { headers: { Authorization: `Bearer ${token}` } }
+      );
+
+      const decoder = data.decoder || {};
+      setInitialValues(
+        Object.fromEntries(
+          FIELDS.map(({ name }) => [name, decoder[name]?.toString() || ""])
+        ) as unknown as Form
+      );
+    } catch (error) {
+      console.error(error);
+    }
+  };
+
+  const handleSubmit = async (values: Form, formik: FormikHelpers<Form>) => {
+    try {
+      const token = await getToken();
+      if (!token) {
+        nav.navigate("LoginScreen" as never);
+        return;
+      }
+
+      // empty fields fall back to the settings of the model
+      const decoder = Object.fromEntries(
+        Object.entries(values)
+          .filter(([, value]) => value !== "")
+          .map(([name, value]) => [name, Number(value)])
+      );
+
+      await axios.put(
+        "http://localhost:3001/api/users/me/preferences",
+        { decoder },
+        { headers: { Authorization: `Bearer ${token}` } }
+      );
+
+      Alert.alert("Success", "Generation settings updated.");
+      formik.resetForm({ values });
+    } catch (error: any) {
+      Alert.alert("Error", getErrorMessage(error));
+    }
+  };
+
+  return (
+    <Formik
+      enableReinitialize
+      initialValues={initialValues}
+      validationSchema={generationSettingsSchema}
+      onSubmit={handleSubmit}
+    >
+      {({
+        handleChange,
+        handleBlur,
+        handleSubmit,
+        values,
+        errors,
+        touched,
+        isValid,
+        isSubmitting,
+      }: FormikProps<Form>) => (
+        <View style={{ gap: 8 }}>
+          {FIELDS.map(({ name, label }) => (
+            <View key={name}>
+              <TextInput
+                label={label}
+                keyboardType="numeric"
+                value={values[name]}
+                onChangeText={handleChange(name)}
+                onBlur={handleBlur(name)}
+                error={touched[name] && !!errors[name]}
+              />
+              {touched[name] && errors[name] && (
+                <Text style={{ color: "red" }}>{errors[name]}</Text>
+              )}
+            </View>
+          ))}
+
+          <Button
+            mode="contained"
+            onPress={handleSubmit}
+            disabled={!isValid || isSubmitting}
+            icon={({ color, size }) => (
+              <MaterialCommunityIcons name="tune" size={size} color={color} />
+            )}
+          >
+            Update generation settings
+          </Button>
+        </View>
+      )}
+    </Formik>
+  );
+};
+
+export default GenerationSettings;
@@ -1,22 +1,22 @@
 import axios from "axios";
 import React, { useEffect, useState } from "react";
-import { View } from "react-native";
+import { Alert, View } from "react-native";
 import { Button, Menu, Divider } from "react-native-paper";
 import { getToken } from "../utils/auth";
 import { useNavigation } from "@react-navigation/native";
+import { getErrorMessage } from "../utils/getErrorMessge";
 
 type Model = {
-  id: string;
+  _id: string;
   name: string;
 };
 
-const DEFAULT_MODEL = { id: "default", name: "GPT-4-All Lora Quantized" };
-
 const ModelSelection: React.FC = () => {
   const nav = useNavigation();
   const [models, setModels] = useState<Model[]>([]);
-  const [selectedModel, setSelectedModel] = useState<Model>(DEFAULT_MODEL);
+  const [selectedModel, setSelectedModel] = useState<Model | null>(null);
   const [menuVisible, setMenuVisible] = useState(false);
+  const [loading, setLoading] = useState(false);
 
   useEffect(() => {
     fetchModels();
@@ -30,20 +30,64 @@ const ModelSelection: React.FC = () => {
         return;
       }
 
-      const { data } = await axios.get("http://localhost:3001/api/llm", {
-        headers: { Authorization: `Bearer ${token}` },
-      });
+      const headers = { Authorization: `Bearer ${token}` };
+      const [{ data }, { data: bot }, { data: preferences }] =
+        await Promise.all([
+          axios.get("http://localhost:3001/api/llm", { headers }),
+          axios.get("http://localhost:3001/api/bot", { headers }),
+          axios.get("http://localhost:3001/api/users/me/preferences", {
+            headers,
+          }),
+        ]);
 
       setModels(data);
+      setSelectedModel(
+        data.find((model: Model) => model.name === preferences.defaultModel) ||
+          data.find((model: Model) => bot.models.includes(model.name)) ||
+          null
+      );
     } catch (error) {
-      setModels([DEFAULT_MODEL]);
       console.error(error);
     }
   };
 
-  const handleModelSelect = (model: Model) => {
-    setSelectedModel(model);
+  const handleModelSelect = async (model: Model) => {
     setMenuVisible(false);
+
+    try {
+      const token = await getToken();
+      if (!token) {
+        nav.navigate("LoginScreen" as never);
+        return;
+      }
+
+      const headers = { Authorization: `Bearer ${token}` };
+
+      setLoading(true);
+      await axios.put(
+        "http://localhost:3001/api/users/me/preferences",
+        { defaultModel: model.name },
+        { headers }
+      );
+      setSelectedModel(model);
+
+      // only admins can load a model that no worker runs yet, which can take a while if its file
+      // has to be downloaded first
+      const { data: bot } = await axios.get("http://localhost:3001/api/bot", {
+        headers,
+      });
+      if (!bot.models.includes(model.name)) {
+        await axios.post(
+          `http://localhost:3001/api/llm/${model._id}/activate`,
+          {},
+          { headers }
+        );
+      }
+    } catch (error: any) {
+      Alert.alert("Error", getErrorMessage(error));
+    } finally {
+      setLoading(false);
+    }
   };
 
   return (
@@ -52,13 +96,17 @@ const ModelSelection: React.FC = () => {
         visible={menuVisible}
         onDismiss={() => setMenuVisible(false)}
         anchor={
-          <Button onPress={() => setMenuVisible(true)}>
+          <Button
+            loading={loading}
+            disabled={loading}
+            onPress={() => setMenuVisible(true)}
+          >
             {selectedModel ? selectedModel.name : "Select a Model"}
           </Button>
         }
       >
         {models.map((model) => (
-          <React.Fragment key={model.id}>
+          <React.Fragment key={model._id}>
             <Menu.Item
               dense
               onPress={() => handleModelSelect(model)}
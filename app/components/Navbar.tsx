@@ -1,9 +1,11 @@
 import AsyncStorage from "@react-native-async-storage/async-storage";
 import { useNavigation } from "@react-navigation/native";
+import axios from "axios";
 import { useEffect, useRef, useState } from "react";
 import { Image, View } from "react-native";
 import { IconButton, Menu } from "react-native-paper";
 import MaterialCommunityIcons from "react-native-vector-icons/MaterialCommunityIcons";
+import { clearTokens, getToken } from "../utils/auth";
 
 export default function Navbar() {
   const ref = useRef<Image>(null);
@@ -38,6 +40,24 @@ export default function Navbar() {
     getIsAuthenticated();
   });
 
+  const signOut = async (endpoint: "logout" | "logout-all") => {
+    try {
+      const token = await getToken();
+      // revoke the session on the server, so the tokens cannot be used anymore
+      await axios.post(
+        `http://localhost:3001/api/auth/${endpoint}`,
+        {},
+        { headers: { Authorization: `Bearer ${token}` } }
+      );
+    } catch (error) {
+      console.error(error);
+    }
+
+    await clearTokens();
+    nav.navigate("LoginScreen" as never);
+    closeMenu();
+  };
+
   return (
     <View
       style={{
@@ -94,16 +114,23 @@ export default function Navbar() {
             )}
           />
           <Menu.Item
-            onPress={async () => {
-              await AsyncStorage.removeItem("token");
-              nav.navigate("LoginScreen" as never);
-              closeMenu();
-            }}
+            onPress={() => signOut("logout")}
             title="Sign Out"
             leadingIcon={({ size, color }) => (
               <MaterialCommunityIcons name="logout" size={size} color={color} />
             )}
           />
+          <Menu.Item
+            onPress={() => signOut("logout-all")}
+            title="Sign Out of All Devices"
+            leadingIcon={({ size, color }) => (
+              <MaterialCommunityIcons
+                name="logout-variant"
+                size={size}
+                color={color}
+              />
+            )}
+          />
         </Menu>
       )}
     </View>
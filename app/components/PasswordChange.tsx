@@ -4,6 +4,7 @@ import { MaterialCommunityIcons } from "@expo/vector-icons";
 import { TextInput, Button, Text } from "react-native-paper";
 import { Formik, FormikHelpers, FormikProps } from "formik";
 import * as Yup from "yup";
+import { changePasswordSchema } from "../../shared/schemas/auth.schema";
 import { getToken } from "../utils/auth";
 import { useNavigation } from "@react-navigation/native";
 import axios from "axios";
@@ -15,9 +16,7 @@ interface Form {
   confirmPassword: string;
 }
 
-const validationSchema = Yup.object().shape({
-  currentPassword: Yup.string().required("Current password is required"),
-  newPassword: Yup.string().required("New password is required"),
+const validationSchema = changePasswordSchema.shape({
   confirmPassword: Yup.string()
     .oneOf([Yup.ref("newPassword"), ""], "Passwords must match")
     .required("Confirm password is required"),
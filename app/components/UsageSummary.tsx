@@ -0,0 +1,84 @@
+import React, { useEffect, useState } from "react";
+import { View } from "react-native";
+import { ProgressBar, Text } from "react-native-paper";
+import axios from "axios";
+import { getToken } from "../utils/auth";
+import { useNavigation } from "@react-navigation/native";
+
+interface Usage {
+  prompts: number;
+  tokens: number;
+  quota: { prompts: number | null; tokens: number | null };
+  remaining: { prompts: number | null; tokens: number | null };
+  resetsAt: string;
+}
+
+const QuotaRow: React.FC<{
+  label: string;
+  used: number;
+  quota: number | null;
+  remaining: number | null;
+}> = ({ label, used, quota, remaining }) => (
+  <View style={{ gap: 4 }}>
+    <Text>
+      {quota === null
+        ? `${label}: ${used} used, unlimited`
+        : `${label}: ${remaining} of ${quota} left`}
+    </Text>
+    {quota !== null && <ProgressBar progress={Math.min(1, used / quota)} />}
+  </View>
+);
+
+const UsageSummary: React.FC = () => {
+  const nav = useNavigation();
+  const [usage, setUsage] = useState<Usage | null>(null);
+
+  useEffect(() => {
+    fetchUsage();
+  }, []);
+
+  const fetchUsage = async () => {
+    try {
+      const token = await getToken();
+      if (!token) {
+        nav.navigate("LoginScreen" as never);
+        return;
+      }
+
+      const { data } = await axios.get(
+        "http://localhost:3001/api/users/me/usage",
+        { headers: { Authorization: `Bearer ${token}` } }
+      );
+
+      setUsage(data);
+    } catch (error) {
+      console.error(error);
+    }
+  };
+
+  if (!usage) {
+    return null;
+  }
+
+  return (
+    <View style={{ gap: 8 }}>
+      <QuotaRow
+        label="Prompts today"
+        used={usage.prompts}
+        quota={usage.quota.prompts}
+        remaining={usage.remaining.prompts}
+      />
+      <QuotaRow
+        label="Tokens today"
+        used={usage.tokens}
+        quota={usage.quota.tokens}
+        remaining={usage.remaining.tokens}
+      />
+      <Text variant="bodySmall">
+        Resets at {new Date(usage.resetsAt).toLocaleTimeString()}
+      </Text>
+    </View>
+  );
+};
+
+export default UsageSummary;
@@ -1,10 +1,16 @@
+const path = require("path");
 const { getDefaultConfig } = require("expo/metro-config");
 
+// the validation schemas shared with the server live outside of the app
+const sharedFolder = path.resolve(__dirname, "../shared");
+
 module.exports = (() => {
   const config = getDefaultConfig(__dirname);
 
   const { transformer, resolver } = config;
 
+  config.watchFolders = [...(config.watchFolders || []), sharedFolder];
+
   config.transformer = {
     ...transformer,
     babelTransformerPath: require.resolve("react-native-svg-transformer"),
@@ -13,6 +19,8 @@ module.exports = (() => {
     ...resolver,
     assetExts: resolver.assetExts.filter((ext) => ext !== "svg"),
     sourceExts: [...resolver.sourceExts, "svg"],
+    // shared files import their packages, like yup, from the app
+    nodeModulesPaths: [path.resolve(__dirname, "node_modules")],
   };
 
   return config;
@@ -16,6 +16,7 @@ import { RouteProp } from "@react-navigation/native";
 import { StackNavigationProp } from "@react-navigation/stack";
 import Markdown from "@valasolutions/react-native-markdown";
 import { getErrorMessage } from "../utils/getErrorMessge";
+import { parseServerSentEvents } from "../utils/sse";
 
 type RootStackParamList = {
   ChatScreen: undefined;
@@ -36,6 +37,14 @@ type Props = {
   route: LoginScreenRouteProp;
 };
 
+/**
+ * The data of the events streamed by `POST /api/bot/prompt/stream`.
+ */
+type PromptEvent = {
+  token?: string;
+  message?: string;
+};
+
 const ChatScreen: React.FC<Props> = ({ navigation, route }: Props) => {
   const theme = useTheme();
   const [input, setInput] = useState<string>("");
@@ -43,6 +52,7 @@ const ChatScreen: React.FC<Props> = ({ navigation, route }: Props) => {
     { input: string; output: string }[]
   >([]);
   const [loading, setLoading] = useState(false);
+  const [partial, setPartial] = useState<string>("");
   const scrollViewRef = useRef<ScrollView>();
 
   const sendPrompt = async (prompt: string) => {
@@ -55,19 +65,40 @@ const ChatScreen: React.FC<Props> = ({ navigation, route }: Props) => {
 
     try {
       const { data } = await axios.post(
-        "http://localhost:3001/api/bot/prompt",
+        "http://localhost:3001/api/bot/prompt/stream",
         { prompt },
-        { headers: { Authorization: `Bearer ${token}` } }
+        {
+          headers: { Authorization: `Bearer ${token}` },
+          responseType: "text",
+          onDownloadProgress: ({ event }) => {
+            const tokens = parseServerSentEvents<PromptEvent>(
+              event.target.responseText
+            )
+              .filter((it) => it.event === "token")
+              .map((it) => it.data?.token);
+
+            setPartial(tokens.join(""));
+          },
+        }
       );
 
+      const events = parseServerSentEvents<PromptEvent>(data);
+      const done = events.find((it) => it.event === "done");
+      if (!done) {
+        const failed = events.find((it) => it.event === "error");
+        throw new Error(failed?.data?.message || "Error prompting bot.");
+      }
+
       setLoading(false);
+      setPartial("");
       setResponses((state) => [
         ...state,
-        { input: prompt, output: data.message },
+        { input: prompt, output: done.data?.message || "" },
       ]);
       setInput("");
     } catch (error) {
       setLoading(false);
+      setPartial("");
       console.error(error);
     }
   };
@@ -213,6 +244,12 @@ const ChatScreen: React.FC<Props> = ({ navigation, route }: Props) => {
             </View>
           </View>
         )}
+        {loading && !!partial && (
+          <Text>
+            <Icon name="robot" size={20} />
+            ... {partial}
+          </Text>
+        )}
         {loading && <ActivityIndicator style={{ marginVertical: 8 }} />}
       </ScrollView>
 
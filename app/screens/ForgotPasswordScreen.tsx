@@ -0,0 +1,146 @@
+import React from "react";
+import { View, Alert } from "react-native";
+import { StackNavigationProp } from "@react-navigation/stack";
+import { RouteProp } from "@react-navigation/native";
+import { Button, TextInput, Text, useTheme } from "react-native-paper";
+import { Formik, FormikHelpers } from "formik";
+import { forgotPasswordSchema } from "../../shared/schemas/auth.schema";
+import axios from "axios";
+import { MaterialCommunityIcons } from "@expo/vector-icons";
+import Navbar from "../components/Navbar";
+import { getErrorMessage } from "../utils/getErrorMessge";
+
+type RootStackParamList = {
+  ChatScreen: undefined;
+  LoginScreen: undefined;
+  SignupScreen: undefined;
+  SettingsScreen: undefined;
+  ForgotPasswordScreen: undefined;
+  ResetPasswordScreen: undefined;
+  VerifyEmailScreen: undefined;
+};
+
+type ForgotPasswordScreenNavigationProp = StackNavigationProp<
+  RootStackParamList,
+  "ForgotPasswordScreen"
+>;
+
+type ForgotPasswordScreenRouteProp = RouteProp<
+  RootStackParamList,
+  "ForgotPasswordScreen"
+>;
+
+type Props = {
+  navigation: ForgotPasswordScreenNavigationProp;
+  route: ForgotPasswordScreenRouteProp;
+};
+
+interface Form {
+  email: string;
+}
+
+const ForgotPasswordScreen: React.FC<Props> = ({ navigation }) => {
+  const theme = useTheme();
+
+  const handleSubmit = async (values: Form, formik: FormikHelpers<Form>) => {
+    try {
+      const { data } = await axios.post(
+        "http://localhost:3001/api/auth/forgot-password",
+        { email: values.email }
+      );
+
+      Alert.alert("Success", data.message);
+      formik.resetForm();
+      navigation.navigate("ResetPasswordScreen");
+    } catch (error) {
+      Alert.alert("Error", getErrorMessage(error));
+    }
+  };
+
+  return (
+    <View
+      style={{
+        alignItems: "center",
+        justifyContent: "center",
+        height: "100%",
+      }}
+    >
+      <Formik
+        initialValues={{ email: "" }}
+        validationSchema={forgotPasswordSchema}
+        onSubmit={handleSubmit}
+      >
+        {({
+          handleChange,
+          handleBlur,
+          handleSubmit,
+          values,
+          errors,
+          touched,
+          isSubmitting,
+        }) => (
+          <View style={{ gap: 24, padding: 24 }}>
+            <Navbar />
+            <Text>
+              Enter the email of your account and we will send you a code to
+              reset your password.
+            </Text>
+            <View style={{ gap: 8 }}>
+              <View>
+                <TextInput
+                  label="Email"
+                  value={values.email}
+                  onChangeText={handleChange("email")}
+                  onBlur={handleBlur("email")}
+                  error={touched.email && !!errors.email}
+                />
+                {touched.email && errors.email && (
+                  <Text style={{ color: theme.colors.error }}>
+                    {errors.email}
+                  </Text>
+                )}
+              </View>
+
+              <Button
+                onPress={handleSubmit}
+                disabled={!values.email || !!errors.email || isSubmitting}
+                mode="contained"
+                icon={({ size, color }) => (
+                  <MaterialCommunityIcons
+                    name="email-send"
+                    size={size}
+                    color={color}
+                  />
+                )}
+              >
+                Send reset code
+              </Button>
+            </View>
+          </View>
+        )}
+      </Formik>
+
+      <Button
+        mode="text"
+        onPress={() => navigation.navigate("ResetPasswordScreen")}
+        icon={({ size, color }) => (
+          <MaterialCommunityIcons name="key" size={size} color={color} />
+        )}
+      >
+        Already have a code?
+      </Button>
+
+      <Button
+        mode="text"
+        onPress={() => navigation.navigate("LoginScreen")}
+        icon={({ size, color }) => (
+          <MaterialCommunityIcons name="login" size={size} color={color} />
+        )}
+      >
+        Back to login
+      </Button>
+    </View>
+  );
+};
+
+export default ForgotPasswordScreen;
@@ -4,19 +4,22 @@ import { StackNavigationProp } from "@react-navigation/stack";
 import { RouteProp } from "@react-navigation/native";
 import { Button, TextInput, Text, useTheme } from "react-native-paper";
 import { Formik, FormikHelpers } from "formik";
-import * as Yup from "yup";
-import AsyncStorage from "@react-native-async-storage/async-storage";
+import { loginSchema } from "../../shared/schemas/auth.schema";
 import axios from "axios";
 import { MaterialCommunityIcons } from "@expo/vector-icons";
 import SearchApp from "../assets/illustrations/login-illustration.svg";
 import Navbar from "../components/Navbar";
 import { getErrorMessage } from "../utils/getErrorMessge";
+import { setTokens } from "../utils/auth";
 
 type RootStackParamList = {
   ChatScreen: undefined;
   LoginScreen: undefined;
   SignupScreen: undefined;
   SettingsScreen: undefined;
+  ForgotPasswordScreen: undefined;
+  ResetPasswordScreen: undefined;
+  VerifyEmailScreen: undefined;
 };
 
 type LoginScreenNavigationProp = StackNavigationProp<
@@ -36,13 +39,6 @@ interface Form {
   password: string;
 }
 
-const LoginSchema = Yup.object().shape({
-  email: Yup.string().email("Invalid email").required("Email is required"),
-  password: Yup.string()
-    .min(6, "Password must be at least 6 characters")
-    .required("Password is required"),
-});
-
 const LoginScreen: React.FC<Props> = ({ navigation }) => {
   const theme = useTheme();
 
@@ -53,7 +49,7 @@ const LoginScreen: React.FC<Props> = ({ navigation }) => {
   ) => {
     try {
       const {
-        data: { token, user, message },
+        data: { token, refreshToken, message },
       } = await axios.post("http://localhost:3001/api/auth/login", {
         email,
         password,
@@ -65,7 +61,7 @@ const LoginScreen: React.FC<Props> = ({ navigation }) => {
       }
 
       formik.resetForm();
-      await AsyncStorage.setItem("token", token);
+      await setTokens(token, refreshToken);
       navigation.navigate("ChatScreen");
     } catch (error) {
       Alert.alert("Error", getErrorMessage(error));
@@ -82,7 +78,7 @@ const LoginScreen: React.FC<Props> = ({ navigation }) => {
     >
       <Formik
         initialValues={{ email: "", password: "" }}
-        validationSchema={LoginSchema}
+        validationSchema={loginSchema}
         onSubmit={(
           values,
           formik: FormikHelpers<{ email: string; password: string }>
@@ -156,6 +152,16 @@ const LoginScreen: React.FC<Props> = ({ navigation }) => {
         )}
       </Formik>
 
+      <Button
+        mode="text"
+        onPress={() => navigation.navigate("ForgotPasswordScreen")}
+        icon={({ size, color }) => (
+          <MaterialCommunityIcons name="lock-reset" size={size} color={color} />
+        )}
+      >
+        Forgot your password?
+      </Button>
+
       <Button
         mode="text"
         onPress={() => navigation.navigate("SignupScreen")}
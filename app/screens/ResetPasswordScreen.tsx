@@ -0,0 +1,180 @@
+import React from "react";
+import { View, Alert } from "react-native";
+import { StackNavigationProp } from "@react-navigation/stack";
+import { RouteProp } from "@react-navigation/native";
+import { Button, TextInput, Text, useTheme } from "react-native-paper";
+import { Formik, FormikHelpers } from "formik";
+import * as Yup from "yup";
+import { resetPasswordSchema } from "../../shared/schemas/auth.schema";
+import axios from "axios";
+import { MaterialCommunityIcons } from "@expo/vector-icons";
+import Navbar from "../components/Navbar";
+import { getErrorMessage } from "../utils/getErrorMessge";
+import { clearTokens } from "../utils/auth";
+
+type RootStackParamList = {
+  ChatScreen: undefined;
+  LoginScreen: undefined;
+  SignupScreen: undefined;
+  SettingsScreen: undefined;
+  ForgotPasswordScreen: undefined;
+  ResetPasswordScreen: undefined;
+  VerifyEmailScreen: undefined;
+};
+
+type ResetPasswordScreenNavigationProp = StackNavigationProp<
+  RootStackParamList,
+  "ResetPasswordScreen"
+>;
+
+type ResetPasswordScreenRouteProp = RouteProp<
+  RootStackParamList,
+  "ResetPasswordScreen"
+>;
+
+type Props = {
+  navigation: ResetPasswordScreenNavigationProp;
+  route: ResetPasswordScreenRouteProp;
+};
+
+interface Form {
+  token: string;
+  password: string;
+  confirmPassword: string;
+}
+
+const ResetPasswordSchema = resetPasswordSchema.shape({
+  confirmPassword: Yup.string()
+    .oneOf([Yup.ref("password"), ""], "Passwords must match")
+    .required("Confirm Password is required"),
+});
+
+const ResetPasswordScreen: React.FC<Props> = ({ navigation }) => {
+  const theme = useTheme();
+
+  const handleSubmit = async (values: Form, formik: FormikHelpers<Form>) => {
+    try {
+      const { data } = await axios.post(
+        "http://localhost:3001/api/auth/reset-password",
+        { token: values.token.trim(), password: values.password }
+      );
+
+      // resetting the password logs out every session
+      await clearTokens();
+      Alert.alert("Success", data.message);
+      formik.resetForm();
+      navigation.navigate("LoginScreen");
+    } catch (error) {
+      Alert.alert("Error", getErrorMessage(error));
+    }
+  };
+
+  return (
+    <View
+      style={{
+        alignItems: "center",
+        justifyContent: "center",
+        height: "100%",
+      }}
+    >
+      <Formik
+        initialValues={{ token: "", password: "", confirmPassword: "" }}
+        validationSchema={ResetPasswordSchema}
+        onSubmit={handleSubmit}
+      >
+        {({
+          handleChange,
+          handleBlur,
+          handleSubmit,
+          values,
+          errors,
+          touched,
+          isValid,
+          isSubmitting,
+        }) => (
+          <View style={{ gap: 24, padding: 24 }}>
+            <Navbar />
+            <View style={{ gap: 8 }}>
+              <View>
+                <TextInput
+                  label="Reset code"
+                  value={values.token}
+                  onChangeText={handleChange("token")}
+                  onBlur={handleBlur("token")}
+                  error={touched.token && !!errors.token}
+                  autoCapitalize="none"
+                />
+                {touched.token && errors.token && (
+                  <Text style={{ color: theme.colors.error }}>
+                    {errors.token}
+                  </Text>
+                )}
+              </View>
+
+              <View>
+                <TextInput
+                  secureTextEntry
+                  label="New password"
+                  value={values.password}
+                  onChangeText={handleChange("password")}
+                  onBlur={handleBlur("password")}
+                  error={touched.password && !!errors.password}
+                />
+                {touched.password && !!errors.password && (
+                  <Text style={{ color: theme.colors.error }}>
+                    {errors.password}
+                  </Text>
+                )}
+              </View>
+
+              <View>
+                <TextInput
+                  secureTextEntry
+                  label="Confirm password"
+                  value={values.confirmPassword}
+                  onChangeText={handleChange("confirmPassword")}
+                  onBlur={handleBlur("confirmPassword")}
+                  error={touched.confirmPassword && !!errors.confirmPassword}
+                />
+                {touched.confirmPassword && !!errors.confirmPassword && (
+                  <Text style={{ color: theme.colors.error }}>
+                    {errors.confirmPassword}
+                  </Text>
+                )}
+              </View>
+
+              <Button
+                onPress={handleSubmit}
+                disabled={
+                  !values.token || !values.password || !isValid || isSubmitting
+                }
+                mode="contained"
+                icon={({ size, color }) => (
+                  <MaterialCommunityIcons
+                    name="lock-reset"
+                    size={size}
+                    color={color}
+                  />
+                )}
+              >
+                Reset password
+              </Button>
+            </View>
+          </View>
+        )}
+      </Formik>
+
+      <Button
+        mode="text"
+        onPress={() => navigation.navigate("LoginScreen")}
+        icon={({ size, color }) => (
+          <MaterialCommunityIcons name="login" size={size} color={color} />
+        )}
+      >
+        Back to login
+      </Button>
+    </View>
+  );
+};
+
+export default ResetPasswordScreen;
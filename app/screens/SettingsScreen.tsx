@@ -2,6 +2,8 @@ import React from "react";
 import { Button, IconButton, Title, useTheme } from "react-native-paper";
 import { View } from "react-native";
 import ModelSelection from "../components/ModelSelection";
+import GenerationSettings from "../components/GenerationSettings";
+import UsageSummary from "../components/UsageSummary";
 import EmailChange from "../components/EmailChange";
 import PasswordChange from "../components/PasswordChange";
 import Navbar from "../components/Navbar";
@@ -43,6 +45,12 @@ const SettingsScreen: React.FC<Props> = ({ navigation, route }: Props) => {
       <Title>Model Selection</Title>
       <ModelSelection />
 
+      <Title>Generation</Title>
+      <GenerationSettings />
+
+      <Title>Usage</Title>
+      <UsageSummary />
+
       <Title>Email</Title>
       <EmailChange />
 
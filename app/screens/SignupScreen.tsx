@@ -1,4 +1,3 @@
-import AsyncStorage from "@react-native-async-storage/async-storage";
 import { RouteProp } from "@react-navigation/native";
 import axios from "axios";
 import { Formik, FormikHelpers } from "formik";
@@ -7,16 +6,21 @@ import { Alert, View } from "react-native";
 import { TextInput, Button, Text, useTheme } from "react-native-paper";
 import MaterialCommunityIcons from "react-native-vector-icons/MaterialCommunityIcons";
 import * as Yup from "yup";
+import { registerSchema } from "../../shared/schemas/auth.schema";
 import SearchApp from "../assets/illustrations/login-illustration.svg";
 import Navbar from "../components/Navbar";
 import { StackNavigationProp } from "@react-navigation/stack";
 import { getErrorMessage } from "../utils/getErrorMessge";
+import { setTokens } from "../utils/auth";
 
 type RootStackParamList = {
   ChatScreen: undefined;
   LoginScreen: undefined;
   SignupScreen: undefined;
   SettingsScreen: undefined;
+  ForgotPasswordScreen: undefined;
+  ResetPasswordScreen: undefined;
+  VerifyEmailScreen: undefined;
 };
 
 type SignupScreenNavigationProp = StackNavigationProp<
@@ -31,13 +35,7 @@ type Props = {
   route: SignupScreenRouteProp;
 };
 
-const SignupSchema = Yup.object().shape({
-  email: Yup.string()
-    .email("Invalid email address")
-    .required("Email is required"),
-  password: Yup.string()
-    .min(6, "Password must be at least 6 characters")
-    .required("Password is required"),
+const SignupSchema = registerSchema.shape({
   confirmPassword: Yup.string()
     .oneOf([Yup.ref("password"), ""], "Passwords must match")
     .required("Confirm Password is required"),
@@ -58,7 +56,7 @@ const SignupScreen: React.FC<Props> = ({ navigation, route }: Props) => {
   ) => {
     try {
       const {
-        data: { token, user, message },
+        data: { token, refreshToken, message },
       } = await axios.post("http://localhost:3001/api/auth/register", {
         email,
         password,
@@ -70,8 +68,12 @@ const SignupScreen: React.FC<Props> = ({ navigation, route }: Props) => {
       }
 
       formik.resetForm();
-      await AsyncStorage.setItem("token", token);
+      await setTokens(token, refreshToken);
       navigation.navigate("ChatScreen");
+      Alert.alert(
+        "Welcome",
+        "We sent you an email with a code to verify your address."
+      );
     } catch (error) {
       Alert.alert("Error", getErrorMessage(error));
     }
@@ -0,0 +1,124 @@
+import React from "react";
+import { View, Alert } from "react-native";
+import { StackNavigationProp } from "@react-navigation/stack";
+import { RouteProp } from "@react-navigation/native";
+import { Button, TextInput, Text, useTheme } from "react-native-paper";
+import { Formik, FormikHelpers } from "formik";
+import { verifyEmailSchema } from "../../shared/schemas/auth.schema";
+import axios from "axios";
+import { MaterialCommunityIcons } from "@expo/vector-icons";
+import Navbar from "../components/Navbar";
+import { getErrorMessage } from "../utils/getErrorMessge";
+
+type RootStackParamList = {
+  ChatScreen: undefined;
+  LoginScreen: undefined;
+  SignupScreen: undefined;
+  SettingsScreen: undefined;
+  ForgotPasswordScreen: undefined;
+  ResetPasswordScreen: undefined;
+  VerifyEmailScreen: undefined;
+};
+
+type VerifyEmailScreenNavigationProp = StackNavigationProp<
+  RootStackParamList,
+  "VerifyEmailScreen"
+>;
+
+type VerifyEmailScreenRouteProp = RouteProp<
+  RootStackParamList,
+  "VerifyEmailScreen"
+>;
+
+type Props = {
+  navigation: VerifyEmailScreenNavigationProp;
+  route: VerifyEmailScreenRouteProp;
+};
+
+interface Form {
+  token: string;
+}
+
+const VerifyEmailScreen: React.FC<Props> = ({ navigation }) => {
+  const theme = useTheme();
+
+  const handleSubmit = async (values: Form, formik: FormikHelpers<Form>) => {
+    try {
+      const { data } = await axios.post(
+        "http://localhost:3001/api/auth/verify-email",
+        { token: values.token.trim() }
+      );
+
+      Alert.alert("Success", data.message);
+      formik.resetForm();
+      navigation.goBack();
+    } catch (error) {
+      Alert.alert("Error", getErrorMessage(error));
+    }
+  };
+
+  return (
+    <View
+      style={{
+        alignItems: "center",
+        justifyContent: "center",
+        height: "100%",
+      }}
+    >
+      <Formik
+        initialValues={{ token: "" }}
+        validationSchema={verifyEmailSchema}
+        onSubmit={handleSubmit}
+      >
+        {({
+          handleChange,
+          handleBlur,
+          handleSubmit,
+          values,
+          errors,
+          touched,
+          isSubmitting,
+        }) => (
+          <View style={{ gap: 24, padding: 24 }}>
+            <Navbar />
+            <Text>Enter the code we sent to your email.</Text>
+            <View style={{ gap: 8 }}>
+              <View>
+                <TextInput
+                  label="Verification code"
+                  value={values.token}
+                  onChangeText={handleChange("token")}
+                  onBlur={handleBlur("token")}
+                  error={touched.token && !!errors.token}
+                  autoCapitalize="none"
+                />
+                {touched.token && errors.token && (
+                  <Text style={{ color: theme.colors.error }}>
+                    {errors.token}
+                  </Text>
+                )}
+              </View>
+
+              <Button
+                onPress={handleSubmit}
+                disabled={!values.token || !!errors.token || isSubmitting}
+                mode="contained"
+                icon={({ size, color }) => (
+                  <MaterialCommunityIcons
+                    name="email-check"
+                    size={size}
+                    color={color}
+                  />
+                )}
+              >
+                Verify email
+              </Button>
+            </View>
+          </View>
+        )}
+      </Formik>
+    </View>
+  );
+};
+
+export default VerifyEmailScreen;
@@ -1,4 +1,5 @@
 import AsyncStorage from "@react-native-async-storage/async-storage";
+import axios, { AxiosError, InternalAxiosRequestConfig } from "axios";
 
 export const getToken = async () => {
   try {
@@ -12,3 +13,74 @@ export const getToken = async () => {
 
   return null;
 };
+
+export const setTokens = async (token: string, refreshToken: string) => {
+  await AsyncStorage.multiSet([
+    ["token", token],
+    ["refreshToken", refreshToken],
+  ]);
+};
+
+export const clearTokens = async () => {
+  await AsyncStorage.multiRemove(["token", "refreshToken"]);
+};
+
+// a refresh token can only be used once, so concurrent requests share a single refresh
+let refreshing: Promise<string | null> | null = null;
+
+export const refreshTokens = () => {
+  if (!refreshing) {
+    refreshing = (async () => {
+      try {
+        const refreshToken = await AsyncStorage.getItem("refreshToken");
+        if (!refreshToken) {
+          return null;
+        }
+
+        const { data } = await axios.post(
+          "http://localhost:3001/api/auth/refresh",
+          { refreshToken }
+        );
+
+        await setTokens(data.token, data.refreshToken);
+        return data.token as string;
+      } catch (error) {
+        await clearTokens();
+        return null;
+      } finally {
+        refreshing = null;
+      }
+    })();
+  }
+
+  return refreshing;
+};
+
+/**
+ * Retries requests rejected because the access token expired once, with a refreshed token.
+ */
+export const setupAuthInterceptor = () => {
+  axios.interceptors.response.use(undefined, async (error: AxiosError) => {
+    const config = error.config as
+      | (InternalAxiosRequestConfig & { retried?: boolean })
+      | undefined;
+
+    if (
+      error.response?.status !== 401 ||
+      !config ||
+      config.retried ||
+      config.url?.includes("/api/auth/refresh")
+    ) {
+      throw error;
+    }
+
+    const token = await refreshTokens();
+    if (!token) {
+      throw error;
+    }
+
+    config.retried = true;
+    config.headers.Authorization = `Bearer ${token}`;
+    return axios(config);
+  });
+};
@@ -0,0 +1,35 @@
+/**
+ * An event of a Server-Sent Events response, whose data is JSON of type `T`, or `null` without data.
+ */
+export type ServerSentEvent<T = unknown> = {
+  event: string;
+  data: T | null;
+};
+
+/**
+ * Parses the complete events out of a Server-Sent Events response body. Events that have not been
+ * fully received yet (no blank line after them) are left out, so the same growing body can be parsed
+ * again as more data arrives.
+ */
+export const parseServerSentEvents = <T = unknown>(
+  text: string
+): ServerSentEvent<T>[] => {
+  const blocks = text.split("\n\n");
+  // the last block is either empty or still being received
+  blocks.pop();
+
+  return blocks.map((block) => {
+    let event = "message";
+    let data = "";
+
+    for (const line of block.split("\n")) {
+      if (line.startsWith("event: ")) {
+        event = line.slice(7);
+      } else if (line.startsWith("data: ")) {
+        data += line.slice(6);
+      }
+    }
+
+    return { event, data: data ? JSON.parse(data) : null };
+  });
+};
@@ -0,0 +1,15 @@
+/* eslint-env node */
+/**
+ * Runs the tests of the server, `npm run test:server`. The tests of the routes start an in-memory
+ * MongoDB with mongodb-memory-server and answer prompts with `scripts/fake-gpt4all.mjs`.
+ * @type {import("ts-jest").JestConfigWithTsJest}
+ */
+module.exports = {
+  preset: "ts-jest",
+  testEnvironment: "node",
+  roots: ["<rootDir>/src"],
+  testMatch: ["**/*.test.ts"],
+  setupFiles: ["<rootDir>/src/__tests__/setup.ts"],
+  // starting MongoDB and the fake model takes a while on slow machines
+  testTimeout: 30000,
+};
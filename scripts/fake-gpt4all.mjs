@@ -0,0 +1,76 @@
+#!/usr/bin/env node
+/* eslint-env node */
+/**
+ * A fake gpt4all chat executable speaking the same stdin/stdout protocol as the real one, for running
+ * the server without downloading a model. Start the server with
+ * `GPT4ALL_EXECUTABLE=./scripts/fake-gpt4all.mjs`. It reads one prompt per line and answers with a
+ * reply from its settings, read from the environment:
+ *
+ * - `FAKE_GPT4ALL_REPLY`: the reply, where `{prompt}` is replaced by the prompt. Defaults to
+ *   `You said: {prompt}`.
+ * - `FAKE_GPT4ALL_REPLIES`: the path of a JSON file with a list of replies, used in turn instead.
+ * - `FAKE_GPT4ALL_STARTUP_MS`: how long loading the model takes. Defaults to `0`.
+ * - `FAKE_GPT4ALL_TOKEN_DELAY_MS`: how long each word of a reply takes. Defaults to `0`.
+ * - `FAKE_GPT4ALL_CRASH_ON`: the number of the prompt, counting from 1, during whose answer the process
+ *   exits with code 1.
+ * - `FAKE_GPT4ALL_ECHO`: set to `true` to echo each prompt before answering, like a terminal would.
+ */
+import { readFileSync } from "fs";
+import { createInterface } from "readline";
+
+const BOLD_GREEN = "\x1b[1m\x1b[32m";
+const RESET = "\x1b[0m";
+
+const env = process.env;
+const replyTemplate = env.FAKE_GPT4ALL_REPLY || "You said: {prompt}";
+const replies = env.FAKE_GPT4ALL_REPLIES
+  ? JSON.parse(readFileSync(env.FAKE_GPT4ALL_REPLIES, "utf8"))
+  : null;
+const startupMs = parseInt(env.FAKE_GPT4ALL_STARTUP_MS || "0", 10);
+const tokenDelayMs = parseInt(env.FAKE_GPT4ALL_TOKEN_DELAY_MS || "0", 10);
+const crashOn = parseInt(env.FAKE_GPT4ALL_CRASH_ON || "0", 10);
+const echo = env.FAKE_GPT4ALL_ECHO === "true";
+
+const sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const getReply = (prompt, index) =>
+  replies?.length
+    ? String(replies[index % replies.length])
+    : replyTemplate.replace(/\{prompt\}/g, prompt);
+
+const waitForInput = () => process.stdout.write(`\n${BOLD_GREEN}> `);
+
+// the real executable logs loading the model to stderr
+process.stderr.write(
+  `main: fake model loaded with ${process.argv.slice(2).join(" ")}\n`
+);
+await sleep(startupMs);
+process.stdout.write(
+  "== Running in chat mode. ==\n" +
+    " - Press Ctrl+C to interject at any time.\n" +
+    " - Press Return to return control to LLaMA.\n"
+);
+waitForInput();
+
+let count = 0;
+for await (const line of createInterface({ input: process.stdin })) {
+  count += 1;
+  if (echo) {
+    process.stdout.write(`${line}\n`);
+  }
+  process.stdout.write(RESET);
+
+  // like the tokens of a model, words start with the space before them
+  const words = getReply(line, count - 1).split(/(?=\s)/);
+  for (const [index, word] of words.entries()) {
+    if (count === crashOn && index >= Math.floor(words.length / 2)) {
+      process.stderr.write("fake crash\n");
+      process.exit(1);
+    }
+
+    await sleep(tokenDelayMs);
+    process.stdout.write(word);
+  }
+
+  waitForInput();
+}
@@ -0,0 +1,19 @@
+import * as Yup from "yup";
+import { trimmedString } from "./common.schema";
+
+export const API_KEY_SCOPES = [
+  "prompt",
+  "read-responses",
+  "write-responses",
+  "conversations",
+  "read-models",
+] as const;
+
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
+export const createApiKeySchema = Yup.object({
+  name: trimmedString().max(100).required("A name is required"),
+  scopes: Yup.array(Yup.string().oneOf(API_KEY_SCOPES).required())
+    .min(1, "Choose at least one scope")
+    .required("Choose at least one scope"),
+});
@@ -0,0 +1,46 @@
+import * as Yup from "yup";
+import { trimmedString } from "./common.schema";
+
+const email = trimmedString()
+  .email("Invalid email address")
+  .required("Email is required");
+
+const newPassword = Yup.string()
+  .min(6, "Password must be at least 6 characters")
+  .required("Password is required");
+
+export const loginSchema = Yup.object({
+  email,
+  password: Yup.string().required("Password is required"),
+});
+
+export const registerSchema = Yup.object({
+  email,
+  password: newPassword,
+});
+
+export const refreshSchema = Yup.object({
+  refreshToken: Yup.string().required("Refresh token is required"),
+});
+
+export const changeEmailSchema = Yup.object({
+  email,
+});
+
+export const changePasswordSchema = Yup.object({
+  currentPassword: Yup.string().required("Current password is required"),
+  newPassword,
+});
+
+export const forgotPasswordSchema = Yup.object({
+  email,
+});
+
+export const resetPasswordSchema = Yup.object({
+  token: trimmedString().required("Reset code is required"),
+  password: newPassword,
+});
+
+export const verifyEmailSchema = Yup.object({
+  token: trimmedString().required("Verification code is required"),
+});
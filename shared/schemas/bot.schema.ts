@@ -0,0 +1,31 @@
+import * as Yup from "yup";
+import { trimmedString } from "./common.schema";
+import { generationSettingsSchema } from "./generation.schema";
+
+export const promptSchema = Yup.object({
+  prompt: trimmedString().required("Prompt is required"),
+  model: Yup.string(),
+  conversationId: Yup.string().matches(
+    /^[a-f\d]{24}$/i,
+    "conversationId must be a valid id"
+  ),
+  decoder: generationSettingsSchema.default(undefined),
+});
+
+export const cancelPromptParamsSchema = Yup.object({
+  requestId: Yup.string().required(),
+});
+
+/**
+ * A `prompt` message of the chat gateway: the fields of a prompt, and the id the client chose for it.
+ */
+export const gatewayPromptSchema = promptSchema.shape({
+  id: Yup.string().required("id is required"),
+});
+
+/**
+ * A `cancel` message of the chat gateway, with the id of the prompt to cancel.
+ */
+export const gatewayCancelSchema = Yup.object({
+  id: Yup.string().required("id is required"),
+});
@@ -0,0 +1,37 @@
+import * as Yup from "yup";
+
+/**
+ * A string without surrounding whitespace. Unlike `Yup.string().trim()`, which throws a `TypeError`
+ * while casting an object or an array, values that are not strings fail validation like they do
+ * without trimming.
+ */
+export const trimmedString = () =>
+  Yup.string().transform((value) =>
+    typeof value === "string" ? value.trim() : value
+  );
+
+/**
+ * An http or https URL. Unlike `Yup.string().url()`, it accepts hosts without a top-level domain,
+ * like `localhost`.
+ */
+export const httpUrl = () =>
+  Yup.string().test("url", "${path} must be a valid URL", (value) => {
+    if (!value) {
+      return true;
+    }
+
+    try {
+      return ["http:", "https:"].includes(new URL(value).protocol);
+    } catch (error) {
+      return false;
+    }
+  });
+
+/**
+ * The parameters of routes addressing a document by its id.
+ */
+export const idParamsSchema = Yup.object({
+  id: Yup.string()
+    .required()
+    .matches(/^[a-f\d]{24}$/i, "id must be a valid id"),
+});
@@ -0,0 +1,7 @@
+import * as Yup from "yup";
+import { trimmedString } from "./common.schema";
+
+export const conversationSchema = Yup.object({
+  title: trimmedString().max(200),
+  model: Yup.string(),
+});
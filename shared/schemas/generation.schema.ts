@@ -0,0 +1,32 @@
+import * as Yup from "yup";
+
+/**
+ * The generation settings that can be set per model, per user and per prompt, with their allowed
+ * ranges. Unset settings fall back to the next level, and finally to the defaults of the backend.
+ */
+export const generationSettingsSchema = Yup.object({
+  temp: Yup.number().typeError("Must be a number").min(0).max(2),
+  top_k: Yup.number().typeError("Must be a number").integer().min(1).max(1000),
+  top_p: Yup.number().typeError("Must be a number").min(0).max(1),
+  n_predict: Yup.number()
+    .typeError("Must be a number")
+    .integer()
+    .min(1)
+    .max(4096),
+  repeat_penalty: Yup.number().typeError("Must be a number").min(0).max(2),
+})
+  // `noUnknown` only rejects unknown keys in strict mode, which would not accept the strings of forms
+  .test(
+    "known-settings",
+    "${path} has unknown settings: ${unknown}",
+    function (_value, { originalValue, createError }) {
+      const unknown = Object.keys(originalValue || {}).filter(
+        (key) => !(key in this.schema.fields)
+      );
+      return (
+        !unknown.length ||
+        createError({ params: { unknown: unknown.join(", ") } })
+      );
+    }
+  )
+  .label("decoder");
@@ -0,0 +1,54 @@
+import * as Yup from "yup";
+import { generationSettingsSchema } from "./generation.schema";
+import { httpUrl, trimmedString } from "./common.schema";
+
+export const PROMPT_TEMPLATES = ["raw", "alpaca", "chatml", "vicuna"] as const;
+
+/**
+ * The names models can have. They name the file of the model on the server, so they cannot contain
+ * slashes or `..`.
+ */
+export const MODEL_NAME_PATTERN = /^(?!.*\.\.)[\w.-]+$/;
+
+const modelName = () =>
+  trimmedString().matches(
+    MODEL_NAME_PATTERN,
+    "Name can only contain letters, digits, '_', '-' and single dots"
+  );
+
+export type PromptTemplateName = (typeof PROMPT_TEMPLATES)[number];
+
+const backendSchema = Yup.object({
+  type: Yup.string().oneOf(["gpt4all", "http"]),
+  url: httpUrl(),
+  api: Yup.string().oneOf(["openai", "llamacpp"]),
+  apiKey: Yup.string(),
+  model: Yup.string(),
+})
+  .noUnknown()
+  .default(undefined);
+
+const llmFields = {
+  backend: backendSchema,
+  promptTemplate: Yup.string().oneOf(PROMPT_TEMPLATES),
+  systemPrompt: Yup.string(),
+  contextTokens: Yup.number().integer().min(1),
+  decoder: generationSettingsSchema.default(undefined),
+  sourceUrl: httpUrl(),
+  size: Yup.number().integer().min(0),
+  sha256: Yup.string()
+    .lowercase()
+    .matches(/^[a-f\d]{64}$/, "sha256 must be a hex encoded SHA-256 hash"),
+  license: Yup.string(),
+  quantization: Yup.string(),
+};
+
+export const createModelSchema = Yup.object({
+  name: modelName().required("Name is required"),
+  ...llmFields,
+});
+
+export const updateModelSchema = Yup.object({
+  name: modelName(),
+  ...llmFields,
+});
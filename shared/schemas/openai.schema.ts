@@ -0,0 +1,60 @@
+import * as Yup from "yup";
+
+/**
+ * A message of an OpenAI chat. The content can also be given as a list of content parts, of which
+ * only the text parts are kept. `developer` messages are treated like `system` messages.
+ */
+const chatMessageSchema = Yup.object({
+  role: Yup.string()
+    .oneOf(["system", "developer", "user", "assistant"])
+    .required(),
+  content: Yup.string()
+    .transform((value, originalValue) =>
+      Array.isArray(originalValue)
+        ? originalValue
+            .filter((part) => part?.type === "text")
+            .map((part) => String(part.text ?? ""))
+            .join("")
+        : value
+    )
+    .defined("${path} is required"),
+});
+
+/**
+ * The body of `POST /v1/chat/completions`. Parameters of the OpenAI API that have no equivalent, like
+ * `stop` or `presence_penalty`, are not part of the schema and are ignored.
+ */
+export const chatCompletionSchema = Yup.object({
+  model: Yup.string().required("model is required"),
+  messages: Yup.array(chatMessageSchema)
+    .min(1, "messages must not be empty")
+    .required("messages is required")
+    .test(
+      "ends-with-user",
+      "The last message must be from the user",
+      (messages) =>
+        !messages?.length || messages[messages.length - 1].role === "user"
+    ),
+  stream: Yup.boolean().default(false),
+  stream_options: Yup.object({ include_usage: Yup.boolean() }).default(
+    undefined
+  ),
+  temperature: Yup.number().typeError("Must be a number").min(0).max(2),
+  top_p: Yup.number().typeError("Must be a number").min(0).max(1),
+  max_tokens: Yup.number()
+    .typeError("Must be a number")
+    .integer()
+    .min(1)
+    .max(4096),
+  max_completion_tokens: Yup.number()
+    .typeError("Must be a number")
+    .integer()
+    .min(1)
+    .max(4096),
+  n: Yup.number().oneOf([1], "Only one choice per completion is supported"),
+  user: Yup.string(),
+});
+
+export const modelParamsSchema = Yup.object({
+  model: Yup.string().required(),
+});
@@ -0,0 +1,9 @@
+import * as Yup from "yup";
+import { generationSettingsSchema } from "./generation.schema";
+
+// `null` clears a preference
+export const preferencesSchema = Yup.object({
+  defaultModel: Yup.string().nullable(),
+  decoder: generationSettingsSchema.nullable().default(undefined),
+  systemPrompt: Yup.string().nullable(),
+});
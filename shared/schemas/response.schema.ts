@@ -0,0 +1,17 @@
+import * as Yup from "yup";
+
+export const createResponseSchema = Yup.object({
+  input: Yup.string().required("Input is required"),
+  output: Yup.string().required("Output is required"),
+});
+
+export const updateResponseSchema = Yup.object({
+  input: Yup.string(),
+  output: Yup.string(),
+});
+
+export const userResponsesParamsSchema = Yup.object({
+  userId: Yup.string()
+    .required()
+    .matches(/^[a-f\d]{24}$/i, "userId must be a valid id"),
+});
@@ -0,0 +1,182 @@
+import request from "supertest";
+import app from "../app";
+import {
+  asUser,
+  clearDatabase,
+  connectDatabase,
+  disconnectDatabase,
+  registerUser,
+} from "./harness";
+
+beforeAll(connectDatabase);
+afterEach(clearDatabase);
+afterAll(disconnectDatabase);
+
+describe("POST /api/auth/register", () => {
+  it("creates a user and starts a session", async () => {
+    const res = await request(app)
+      .post("/api/auth/register")
+      .send({ email: "new@example.com", password: "password123" })
+      .expect(201);
+
+    expect(res.body.token).toEqual(expect.any(String));
+    expect(res.body.refreshToken).toEqual(expect.any(String));
+    expect(res.body.user).toMatchObject({
+      email: "new@example.com",
+      role: "user",
+    });
+    expect(res.body.user.password).toBeUndefined();
+  });
+
+  it("rejects an email that is already registered", async () => {
+    const user = await registerUser();
+
+    await request(app)
+      .post("/api/auth/register")
+      .send({ email: user.email, password: "password123" })
+      .expect(400, { message: "User already exists." });
+  });
+
+  it("rejects invalid fields", async () => {
+    const res = await request(app)
+      .post("/api/auth/register")
+      .send({ email: "not an email", password: "short" })
+      .expect(400);
+
+    expect(res.body.errors.map(({ path }: { path: string }) => path)).toEqual(
+      expect.arrayContaining(["email", "password"])
+    );
+  });
+});
+
+describe("POST /api/auth/login", () => {
+  it("logs in with the right password", async () => {
+    const user = await registerUser();
+
+    const res = await request(app)
+      .post("/api/auth/login")
+      .send({ email: user.email, password: user.password })
+      .expect(200);
+
+    expect(res.body.user.email).toBe(user.email);
+    await request(app)
+      .post("/api/auth/validate")
+      .set("Authorization", `Bearer ${res.body.token}`)
+      .expect(200);
+  });
+
+  it("answers wrong passwords and unknown emails alike", async () => {
+    const user = await registerUser();
+
+    const wrongPassword = await request(app)
+      .post("/api/auth/login")
+      .send({ email: user.email, password: "wrong-password" })
+      .expect(400);
+    const unknownEmail = await request(app)
+      .post("/api/auth/login")
+      .send({ email: "nobody@example.com", password: "wrong-password" })
+      .expect(400);
+
+    expect(wrongPassword.body).toEqual(unknownEmail.body);
+  });
+});
+
+describe("authentication", () => {
+  it("rejects requests without a token", async () => {
+    await request(app).post("/api/auth/validate").expect(401);
+  });
+
+  it("rejects invalid tokens", async () => {
+    await request(app)
+      .post("/api/auth/validate")
+      .set("Authorization", "Bearer not-a-token")
+      .expect(401);
+  });
+});
+
+describe("sessions", () => {
+  it("rotates refresh tokens and revokes a session when one is reused", async () => {
+    const user = await registerUser();
+
+    const refreshed = await request(app)
+      .post("/api/auth/refresh")
+      .send({ refreshToken: user.refreshToken })
+      .expect(200);
+
+    // the first refresh token was already used, so it was stolen
+    await request(app)
+      .post("/api/auth/refresh")
+      .send({ refreshToken: user.refreshToken })
+      .expect(401);
+    await request(app)
+      .post("/api/auth/refresh")
+      .send({ refreshToken: refreshed.body.refreshToken })
+      .expect(401);
+  });
+
+  it("accepts only one of two refreshes with the same token at once", async () => {
+    const user = await registerUser();
+
+    const responses = await Promise.all(
+      [1, 2].map(() =>
+        request(app)
+          .post("/api/auth/refresh")
+          .send({ refreshToken: user.refreshToken })
+      )
+    );
+
+    expect(responses.map(({ status }) => status).sort()).toEqual([200, 401]);
+  });
+
+  it("rejects the token of a session that logged out", async () => {
+    const user = await registerUser();
+
+    await request(app).post("/api/auth/logout").set(asUser(user)).expect(200);
+    await request(app).post("/api/auth/validate").set(asUser(user)).expect(401);
+  });
+
+  it("changes the password", async () => {
+    const user = await registerUser();
+
+    await request(app)
+      .put("/api/auth/change-password")
+      .set(asUser(user))
+      .send({ currentPassword: "wrong-password", newPassword: "new-password" })
+      .expect(400);
+    await request(app)
+      .put("/api/auth/change-password")
+      .set(asUser(user))
+      .send({ currentPassword: user.password, newPassword: "new-password" })
+      .expect(200);
+
+    await request(app)
+      .post("/api/auth/login")
+      .send({ email: user.email, password: "new-password" })
+      .expect(200);
+  });
+
+  it("revokes the other sessions when the password changes", async () => {
+    const user = await registerUser();
+    const other = await request(app)
+      .post("/api/auth/login")
+      .send({ email: user.email, password: user.password })
+      .expect(200);
+
+    await request(app)
+      .put("/api/auth/change-password")
+      .set(asUser(user))
+      .send({ currentPassword: user.password, newPassword: "new-password" })
+      .expect(200);
+
+    await request(app)
+      .post("/api/auth/validate")
+      .set("Authorization", `Bearer ${other.body.token}`)
+      .expect(401);
+    await request(app)
+      .post("/api/auth/refresh")
+      .send({ refreshToken: other.body.refreshToken })
+      .expect(401);
+    // the session that changed the password stays
+    await request(app).post("/api/auth/validate").set(asUser(user)).expect(200);
+  });
+});
@@ -0,0 +1,202 @@
+import request from "supertest";
+import app from "../app";
+import { pool } from "../controllers/bot.controller";
+import Conversation from "../models/conversation.model";
+import {
+  addFakeModel,
+  asUser,
+  clearDatabase,
+  connectDatabase,
+  disconnectDatabase,
+  registerUser,
+  removeFakeModel,
+  TestUser,
+} from "./harness";
+import { FAKE_MODEL } from "./setup";
+
+const waitForState = async (state: string, timeout = 5000) => {
+  const giveUpAt = Date.now() + timeout;
+  while (pool.getStatus().state !== state) {
+    if (Date.now() > giveUpAt) {
+      throw new Error(`Bot pool did not become ${state}.`);
+    }
+    await new Promise((resolve) => setTimeout(resolve, 50));
+  }
+};
+
+let user: TestUser;
+
+beforeAll(async () => {
+  await connectDatabase();
+  await addFakeModel();
+  await pool.init();
+  await pool.open();
+});
+
+beforeEach(async () => {
+  user = await registerUser();
+});
+
+afterEach(clearDatabase);
+
+afterAll(async () => {
+  pool.close();
+  await removeFakeModel();
+  await disconnectDatabase();
+});
+
+describe("GET /api/bot/status", () => {
+  it("reports the workers of the pool", async () => {
+    const res = await request(app)
+      .get("/api/bot/status")
+      .set(asUser(user))
+      .expect(200);
+
+    expect(res.body).toMatchObject({
+      state: "ready",
+      models: [FAKE_MODEL],
+      workers: [{ model: FAKE_MODEL, state: "ready" }],
+    });
+  });
+});
+
+describe("POST /api/bot/prompt", () => {
+  it("answers a prompt", async () => {
+    const res = await request(app)
+      .post("/api/bot/prompt")
+      .set(asUser(user))
+      .send({ prompt: "hello there" })
+      .expect(200);
+
+    expect(res.body).toEqual({
+      id: expect.any(String),
+      message: "You said: hello there",
+    });
+  });
+
+  it("rejects invalid prompts", async () => {
+    const res = await request(app)
+      .post("/api/bot/prompt")
+      .set(asUser(user))
+      .send({ prompt: "  ", decoder: { temp: 5 } })
+      .expect(400);
+
+    expect(res.body.errors.map(({ path }: { path: string }) => path)).toEqual(
+      expect.arrayContaining(["prompt", "decoder.temp"])
+    );
+  });
+
+  it("does not count prompts refused before they are queued", async () => {
+    await request(app)
+      .post("/api/bot/prompt")
+      .set(asUser(user))
+      .send({ prompt: "hi", model: "not-running" })
+      .expect(400);
+    await request(app)
+      .post("/api/bot/prompt")
+      .set(asUser(user))
+      .send({ prompt: "hi", conversationId: "64b7f0c2a1b2c3d4e5f60718" })
+      .expect(404);
+
+    const usage = await request(app)
+      .get("/api/users/me/usage")
+      .set(asUser(user))
+      .expect(200);
+    expect(usage.body.prompts).toBe(0);
+
+    const res = await request(app)
+      .post("/api/bot/prompt")
+      .set(asUser(user))
+      .send({ prompt: "hi" })
+      .expect(200);
+    expect(res.headers["ratelimit-remaining"]).toBe("19");
+  });
+
+  it("appends the prompt and its answer to a conversation", async () => {
+    const conversation = await request(app)
+      .post("/api/conversations")
+      .set(asUser(user))
+      .send({ title: "Greetings" })
+      .expect(201);
+
+    await request(app)
+      .post("/api/bot/prompt")
+      .set(asUser(user))
+      .send({ prompt: "hi", conversationId: conversation.body._id })
+      .expect(200);
+
+    const res = await request(app)
+      .get(`/api/conversations/${conversation.body._id}`)
+      .set(asUser(user))
+      .expect(200);
+    expect(res.body.messages).toMatchObject([
+      { role: "user", content: "hi" },
+      { role: "assistant", content: "You said: hi" },
+    ]);
+  });
+
+  it("answers even when the answer cannot be saved", async () => {
+    const conversation = await request(app)
+      .post("/api/conversations")
+      .set(asUser(user))
+      .send({ title: "Unsaved" })
+      .expect(201);
+    const updateOne = jest
+      .spyOn(Conversation, "updateOne")
+      .mockRejectedValueOnce(new Error("Database is gone."));
+
+    try {
+      await request(app)
+        .post("/api/bot/prompt")
+        .set(asUser(user))
+        .send({ prompt: "hi", conversationId: conversation.body._id })
+        .expect(200, /You said: hi/);
+    } finally {
+      updateOne.mockRestore();
+    }
+  });
+
+  it("answers 503 when the bot crashes, then restarts it", async () => {
+    pool.close();
+    process.env.FAKE_GPT4ALL_CRASH_ON = "1";
+    await pool.open();
+    // only the first process crashes, the restarted one does not
+    delete process.env.FAKE_GPT4ALL_CRASH_ON;
+
+    await request(app)
+      .post("/api/bot/prompt")
+      .set(asUser(user))
+      .send({ prompt: "crash now" })
+      .expect(503);
+
+    await waitForState("ready");
+    await request(app)
+      .post("/api/bot/prompt")
+      .set(asUser(user))
+      .send({ prompt: "are you back?" })
+      .expect(200, /You said: are you back\?/);
+  });
+});
+
+describe("POST /api/bot/prompt/stream", () => {
+  it("streams the answer as server-sent events", async () => {
+    const res = await request(app)
+      .post("/api/bot/prompt/stream")
+      .set(asUser(user))
+      .send({ prompt: "stream this" })
+      .expect(200)
+      .expect("Content-Type", /text\/event-stream/);
+
+    expect(res.text).toContain("event: queued");
+    expect(res.text).toContain("event: token");
+    expect(res.text).toMatch(
+      /event: done\ndata: .*"message":"You said: stream this"/
+    );
+  });
+});
+
+describe("POST /api/bot/close", () => {
+  it("is only allowed to admins", async () => {
+    await request(app).post("/api/bot/close").set(asUser(user)).expect(403);
+  });
+});
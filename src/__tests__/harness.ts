@@ -0,0 +1,99 @@
+import fs from "fs";
+import { MongoMemoryServer } from "mongodb-memory-server";
+import mongoose from "mongoose";
+import request from "supertest";
+import app from "../app";
+import { getModelPath } from "../backends/gpt4all.backend";
+import LLM from "../models/llm.model";
+import User from "../models/user.model";
+import { FAKE_MODEL } from "./setup";
+
+let mongo: MongoMemoryServer | undefined;
+
+/**
+ * Starts an in-memory MongoDB and connects to it. Used in `beforeAll`.
+ */
+export const connectDatabase = async (): Promise<void> => {
+  mongo = await MongoMemoryServer.create();
+  await mongoose.connect(mongo.getUri());
+};
+
+/**
+ * Deletes every document, so each test starts with an empty database. Used in `afterEach`.
+ */
+export const clearDatabase = async (): Promise<void> => {
+  const collections = await mongoose.connection.db.collections();
+  await Promise.all(collections.map((collection) => collection.deleteMany({})));
+};
+
+/**
+ * Disconnects from the in-memory MongoDB and stops it. Used in `afterAll`.
+ */
+export const disconnectDatabase = async (): Promise<void> => {
+  await mongoose.disconnect();
+  await mongo?.stop();
+  mongo = undefined;
+};
+
+export interface TestUser {
+  id: string;
+  email: string;
+  password: string;
+  token: string;
+  refreshToken: string;
+}
+
+let users = 0;
+
+/**
+ * Registers a new user through the API, with a unique email.
+ * @param [options.admin] - Makes the user an admin.
+ */
+export const registerUser = async ({
+  admin = false,
+} = {}): Promise<TestUser> => {
+  users += 1;
+  const email = `user${users}@example.com`;
+  const password = "password123";
+
+  const res = await request(app)
+    .post("/api/auth/register")
+    .send({ email, password })
+    .expect(201);
+
+  if (admin) {
+    await User.updateOne({ _id: res.body.user._id }, { role: "admin" });
+  }
+
+  return {
+    id: res.body.user._id,
+    email,
+    password,
+    token: res.body.token,
+    refreshToken: res.body.refreshToken,
+  };
+};
+
+/**
+ * Returns the `Authorization` header of a user.
+ */
+export const asUser = (user: TestUser): Record<string, string> => ({
+  Authorization: `Bearer ${user.token}`,
+});
+
+/**
+ * Adds the fake model to the catalog and gives it an empty model file, which the fake executable
+ * does not read.
+ */
+export const addFakeModel = async (): Promise<void> => {
+  await LLM.create({ name: FAKE_MODEL });
+  await fs.promises.mkdir("models", { recursive: true });
+  await fs.promises.writeFile(getModelPath(FAKE_MODEL), "");
+};
+
+/**
+ * Deletes the file of the fake model.
+ */
+export const removeFakeModel = async (): Promise<void> => {
+  await fs.promises.rm(getModelPath(FAKE_MODEL), { force: true });
+};
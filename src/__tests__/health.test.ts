@@ -0,0 +1,32 @@
+import request from "supertest";
+import app from "../app";
+import { connectDatabase, disconnectDatabase } from "./harness";
+
+beforeAll(connectDatabase);
+afterAll(disconnectDatabase);
+
+// the bot pool is never opened here, like with `BOT_STARTUP=manual`
+describe("GET /api/health", () => {
+  it("is healthy while the bot is closed", async () => {
+    const res = await request(app).get("/api/health").expect(200);
+
+    expect(res.body).toMatchObject({
+      status: "ok",
+      ready: false,
+      database: "connected",
+      bot: { state: "closed", open: 0 },
+    });
+  });
+});
+
+describe("GET /api/health/ready", () => {
+  it("is not ready while the bot is closed", async () => {
+    const res = await request(app).get("/api/health/ready").expect(503);
+
+    expect(res.body).toMatchObject({
+      status: "unavailable",
+      message: "Bot is not open.",
+      ready: false,
+    });
+  });
+});
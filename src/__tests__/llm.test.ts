@@ -0,0 +1,143 @@
+import request from "supertest";
+import app from "../app";
+import { DEFAULT_MODELS, seedCatalog } from "../catalog";
+import {
+  asUser,
+  clearDatabase,
+  connectDatabase,
+  disconnectDatabase,
+  registerUser,
+  TestUser,
+} from "./harness";
+
+const remoteModel = {
+  name: "remote-llama",
+  backend: { type: "http", url: "http://localhost:8080", api: "llamacpp" },
+  promptTemplate: "alpaca",
+};
+
+let user: TestUser;
+let admin: TestUser;
+
+beforeAll(connectDatabase);
+
+beforeEach(async () => {
+  await seedCatalog();
+  user = await registerUser();
+  admin = await registerUser({ admin: true });
+});
+
+afterEach(clearDatabase);
+afterAll(disconnectDatabase);
+
+describe("GET /api/llm", () => {
+  it("lists the catalog", async () => {
+    const res = await request(app)
+      .get("/api/llm")
+      .set(asUser(user))
+      .expect(200);
+
+    expect(res.body.map(({ name }: { name: string }) => name)).toEqual(
+      expect.arrayContaining(DEFAULT_MODELS.map(({ name }) => name))
+    );
+  });
+
+  it("requires a token", async () => {
+    await request(app).get("/api/llm").expect(401);
+  });
+});
+
+describe("GET /api/llm/:id", () => {
+  it("rejects invalid ids and unknown models", async () => {
+    await request(app).get("/api/llm/nope").set(asUser(user)).expect(400);
+    await request(app)
+      .get("/api/llm/0123456789abcdef01234567")
+      .set(asUser(user))
+      .expect(404);
+  });
+});
+
+describe("POST /api/llm", () => {
+  it("adds a model for admins", async () => {
+    const created = await request(app)
+      .post("/api/llm")
+      .set(asUser(admin))
+      .send(remoteModel)
+      .expect(201);
+
+    const res = await request(app)
+      .get(`/api/llm/${created.body._id}`)
+      .set(asUser(user))
+      .expect(200);
+    expect(res.body).toMatchObject(remoteModel);
+  });
+
+  it("is only allowed to admins", async () => {
+    await request(app)
+      .post("/api/llm")
+      .set(asUser(user))
+      .send(remoteModel)
+      .expect(403);
+  });
+
+  it("requires a source for gpt4all models", async () => {
+    await request(app)
+      .post("/api/llm")
+      .set(asUser(admin))
+      .send({ name: "no-source" })
+      .expect(400, { message: "A gpt4all model needs a source URL." });
+  });
+
+  it("rejects invalid fields", async () => {
+    const res = await request(app)
+      .post("/api/llm")
+      .set(asUser(admin))
+      .send({ ...remoteModel, promptTemplate: "unknown", contextTokens: 0 })
+      .expect(400);
+
+    expect(res.body.errors.map(({ path }: { path: string }) => path)).toEqual(
+      expect.arrayContaining(["promptTemplate", "contextTokens"])
+    );
+  });
+
+  it("rejects names that are not safe file names", async () => {
+    for (const name of ["../../etc/passwd", "models/x", "a..b", "with space"]) {
+      const res = await request(app)
+        .post("/api/llm")
+        .set(asUser(admin))
+        .send({ ...remoteModel, name })
+        .expect(400);
+
+      expect(res.body.errors).toEqual([
+        expect.objectContaining({ path: "name" }),
+      ]);
+    }
+  });
+});
+
+describe("PUT and DELETE /api/llm/:id", () => {
+  it("changes and deletes a model for admins", async () => {
+    const created = await request(app)
+      .post("/api/llm")
+      .set(asUser(admin))
+      .send(remoteModel)
+      .expect(201);
+    const path = `/api/llm/${created.body._id}`;
+
+    await request(app)
+      .put(path)
+      .set(asUser(user))
+      .send({ contextTokens: 4096 })
+      .expect(403);
+    const updated = await request(app)
+      .put(path)
+      .set(asUser(admin))
+      .send({ contextTokens: 4096 })
+      .expect(200);
+    expect(updated.body.contextTokens).toBe(4096);
+
+    await request(app).delete(path).set(asUser(user)).expect(403);
+    await request(app).delete(path).set(asUser(admin)).expect(200);
+    await request(app).get(path).set(asUser(user)).expect(404);
+  });
+});
@@ -0,0 +1,177 @@
+import {
+  LoginGuard,
+  LoginThrottle,
+  MemoryAttemptStore,
+} from "../loginThrottle";
+
+const second = 1000;
+const minute = 60 * second;
+
+let now: number;
+const clock = () => now;
+
+beforeEach(() => {
+  now = Date.UTC(2023, 0, 1);
+});
+
+describe("MemoryAttemptStore", () => {
+  const record = { failures: 1, lastFailureAt: 0, blockedUntil: 0 };
+
+  it("forgets records once they expire", async () => {
+    const store = new MemoryAttemptStore(clock);
+    await store.set("key", record, minute);
+
+    now += minute - 1;
+    expect(await store.get("key")).toEqual(record);
+    now += 1;
+    expect(await store.get("key")).toBeUndefined();
+  });
+
+  it("deletes records", async () => {
+    const store = new MemoryAttemptStore(clock);
+    await store.set("key", record, minute);
+
+    await store.delete("key");
+
+    expect(await store.get("key")).toBeUndefined();
+  });
+});
+
+describe("LoginThrottle", () => {
+  const options = {
+    freeAttempts: 2,
+    baseDelay: second,
+    maxDelay: 4 * second,
+    maxFailures: 6,
+    lockout: 10 * minute,
+    window: 30 * minute,
+  };
+
+  const fail = async (throttle: LoginThrottle, times: number) => {
+    for (let i = 0; i < times; i++) {
+      await throttle.recordFailure("key");
+    }
+  };
+
+  it("delays attempts exponentially after the free ones", async () => {
+    const throttle = new LoginThrottle(
+      new MemoryAttemptStore(clock),
+      options,
+      clock
+    );
+    const delays = [];
+
+    for (let i = 0; i < 5; i++) {
+      await throttle.recordFailure("key");
+      delays.push(await throttle.getRetryAfter("key"));
+    }
+
+    expect(delays).toEqual([0, 0, second, 2 * second, 4 * second]);
+  });
+
+  it("locks a key out after the maximum number of failures", async () => {
+    const throttle = new LoginThrottle(
+      new MemoryAttemptStore(clock),
+      options,
+      clock
+    );
+
+    await fail(throttle, 6);
+
+    expect(await throttle.getRetryAfter("key")).toBe(10 * minute);
+    now += 10 * minute;
+    expect(await throttle.getRetryAfter("key")).toBe(0);
+  });
+
+  it("starts counting over once the window passed", async () => {
+    const throttle = new LoginThrottle(
+      new MemoryAttemptStore(clock),
+      options,
+      clock
+    );
+    await fail(throttle, 5);
+
+    now += 30 * minute;
+    const record = await throttle.recordFailure("key");
+
+    expect(record.failures).toBe(1);
+    expect(await throttle.getRetryAfter("key")).toBe(0);
+  });
+
+  it("forgets the failures of a key that is reset", async () => {
+    const throttle = new LoginThrottle(
+      new MemoryAttemptStore(clock),
+      options,
+      clock
+    );
+    await fail(throttle, 5);
+
+    await throttle.reset("key");
+
+    expect(await throttle.getRetryAfter("key")).toBe(0);
+    expect((await throttle.recordFailure("key")).failures).toBe(1);
+  });
+});
+
+describe("LoginGuard", () => {
+  const ip = "203.0.113.7";
+
+  const fail = async (guard: LoginGuard, email: string, times: number) => {
+    for (let i = 0; i < times; i++) {
+      await guard.recordFailure(email, ip);
+    }
+  };
+
+  it("locks an account out after 10 failures, from any address", async () => {
+    const guard = new LoginGuard(new MemoryAttemptStore(clock), clock);
+
+    await fail(guard, "user@example.com", 9);
+    expect(await guard.getRetryAfter("user@example.com", ip)).toBe(32 * second);
+    await fail(guard, "User@Example.com ", 1);
+
+    expect(await guard.getRetryAfter("user@example.com", "198.51.100.1")).toBe(
+      15 * minute
+    );
+    expect(await guard.getRetryAfter("other@example.com", "198.51.100.1")).toBe(
+      0
+    );
+  });
+
+  it("locks an address out after 50 failures, for every account", async () => {
+    const guard = new LoginGuard(new MemoryAttemptStore(clock), clock);
+
+    // spread over accounts, so none of them is locked out
+    for (let i = 0; i < 50; i++) {
+      await guard.recordFailure(`user${i}@example.com`, ip);
+    }
+
+    expect(await guard.getRetryAfter("new@example.com", ip)).toBe(15 * minute);
+    expect(await guard.getRetryAfter("new@example.com", "198.51.100.1")).toBe(
+      0
+    );
+  });
+
+  it("forgets the failures of an account once it logs in", async () => {
+    const guard = new LoginGuard(new MemoryAttemptStore(clock), clock);
+    await fail(guard, "user@example.com", 9);
+
+    await guard.recordSuccess("user@example.com");
+
+    expect(await guard.getRetryAfter("user@example.com", "198.51.100.1")).toBe(
+      0
+    );
+    // the failures of the address are kept
+    expect(await guard.getRetryAfter("other@example.com", ip)).toBe(0);
+    await fail(guard, "other@example.com", 2);
+    expect(await guard.getRetryAfter("other@example.com", ip)).toBe(second);
+  });
+
+  it("forgets failures once the window passed", async () => {
+    const guard = new LoginGuard(new MemoryAttemptStore(clock), clock);
+    await fail(guard, "user@example.com", 9);
+
+    now += 60 * minute;
+
+    expect(await guard.getRetryAfter("user@example.com", ip)).toBe(0);
+  });
+});
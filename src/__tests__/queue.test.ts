@@ -0,0 +1,226 @@
+import { PromptCancelledError } from "../bot";
+import { PromptQueue, QueueFullError } from "../queue";
+
+/**
+ * A task that runs until it is finished by the test, or rejects with a `PromptCancelledError` once
+ * its signal is aborted.
+ */
+const deferredTask = () => {
+  let finish: (value: string) => void = () => undefined;
+  let started = false;
+  let signal: AbortSignal | undefined;
+
+  const task = (taskSignal: AbortSignal) => {
+    started = true;
+    signal = taskSignal;
+    return new Promise<string>((resolve, reject) => {
+      finish = resolve;
+      taskSignal.addEventListener("abort", () =>
+        reject(new PromptCancelledError())
+      );
+    });
+  };
+
+  return {
+    task,
+    finish: (value: string) => finish(value),
+    isStarted: () => started,
+    getSignal: () => signal,
+  };
+};
+
+const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+describe("PromptQueue", () => {
+  describe("enqueue", () => {
+    it("runs requests one at a time in the order they were added", async () => {
+      const queue = new PromptQueue({ maxLength: 5, maxPerUser: 5 });
+      const first = deferredTask();
+      const second = deferredTask();
+
+      const a = queue.enqueue("alice", first.task);
+      const b = queue.enqueue("bob", second.task);
+      await flush();
+
+      expect(a.position).toBe(0);
+      expect(b.position).toBe(1);
+      expect(first.isStarted()).toBe(true);
+      expect(second.isStarted()).toBe(false);
+      expect(queue.length).toBe(1);
+
+      first.finish("first");
+      expect(await a.result).toBe("first");
+      await flush();
+
+      expect(second.isStarted()).toBe(true);
+      expect(queue.getPosition(b.id)).toBe(0);
+      second.finish("second");
+      expect(await b.result).toBe("second");
+      await flush();
+      expect(queue.getPosition(b.id)).toBe(-1);
+    });
+
+    it("runs as many requests at once as its concurrency", async () => {
+      const queue = new PromptQueue({
+        maxLength: 5,
+        maxPerUser: 5,
+        concurrency: 2,
+      });
+      const tasks = [deferredTask(), deferredTask(), deferredTask()];
+
+      const positions = tasks.map(
+        ({ task }) => queue.enqueue("alice", task).position
+      );
+      await flush();
+
+      expect(positions).toEqual([0, 0, 1]);
+      expect(tasks.map(({ isStarted }) => isStarted())).toEqual([
+        true,
+        true,
+        false,
+      ]);
+    });
+
+    it("rejects requests once the queue is full", () => {
+      const queue = new PromptQueue({ maxLength: 1, maxPerUser: 5 });
+      queue.enqueue("alice", deferredTask().task);
+      queue.enqueue("bob", deferredTask().task);
+
+      expect(() => queue.enqueue("carol", deferredTask().task)).toThrow(
+        new QueueFullError("The prompt queue is full, please try again later.")
+      );
+      expect(queue.length).toBe(1);
+    });
+
+    it("rejects requests of users who have too many waiting or running", () => {
+      const queue = new PromptQueue({ maxLength: 5, maxPerUser: 2 });
+      queue.enqueue("alice", deferredTask().task);
+      queue.enqueue("alice", deferredTask().task);
+
+      expect(() => queue.enqueue("alice", deferredTask().task)).toThrow(
+        QueueFullError
+      );
+      expect(() => queue.enqueue("alice", deferredTask().task)).toThrow(
+        "You can not have more than 2 prompts in the queue."
+      );
+      expect(queue.enqueue("bob", deferredTask().task).position).toBe(2);
+    });
+
+    it("lists the requests of a user", () => {
+      const queue = new PromptQueue({ maxLength: 5, maxPerUser: 5 });
+      const a = queue.enqueue("alice", deferredTask().task);
+      queue.enqueue("bob", deferredTask().task);
+      const c = queue.enqueue("alice", deferredTask().task);
+
+      expect(queue.getRequests("alice")).toEqual([
+        {
+          id: a.id,
+          userId: "alice",
+          enqueuedAt: expect.any(Date),
+          position: 0,
+        },
+        {
+          id: c.id,
+          userId: "alice",
+          enqueuedAt: expect.any(Date),
+          position: 2,
+        },
+      ]);
+    });
+  });
+
+  describe("cancel", () => {
+    it("removes a waiting request without running it", async () => {
+      const queue = new PromptQueue({ maxLength: 5, maxPerUser: 5 });
+      const first = deferredTask();
+      const second = deferredTask();
+      const third = deferredTask();
+      queue.enqueue("alice", first.task);
+      const b = queue.enqueue("alice", second.task);
+      const c = queue.enqueue("alice", third.task);
+
+      expect(queue.cancel(b.id)).toBe(true);
+
+      await expect(b.result).rejects.toThrow(PromptCancelledError);
+      expect(queue.length).toBe(1);
+      expect(queue.getPosition(c.id)).toBe(1);
+
+      first.finish("first");
+      await flush();
+      expect(second.isStarted()).toBe(false);
+      expect(third.isStarted()).toBe(true);
+    });
+
+    it("aborts the signal of a running request", async () => {
+      const queue = new PromptQueue({ maxLength: 5, maxPerUser: 5 });
+      const first = deferredTask();
+      const second = deferredTask();
+      const a = queue.enqueue("alice", first.task);
+      queue.enqueue("alice", second.task);
+      await flush();
+
+      expect(queue.cancel(a.id)).toBe(true);
+
+      expect(first.getSignal()?.aborted).toBe(true);
+      await expect(a.result).rejects.toThrow(PromptCancelledError);
+      await flush();
+      expect(second.isStarted()).toBe(true);
+    });
+
+    it("returns false for unknown or finished requests", async () => {
+      const queue = new PromptQueue({ maxLength: 5, maxPerUser: 5 });
+      const first = deferredTask();
+      const a = queue.enqueue("alice", first.task);
+      await flush();
+      first.finish("done");
+      await a.result;
+      await flush();
+
+      expect(queue.cancel(a.id)).toBe(false);
+      expect(queue.cancel("unknown")).toBe(false);
+    });
+  });
+
+  describe("drain", () => {
+    it("resolves right away when the queue is idle", async () => {
+      const queue = new PromptQueue({ maxLength: 5, maxPerUser: 5 });
+
+      expect(await queue.drain(1000)).toBe(true);
+    });
+
+    it("waits for the waiting and running requests to finish", async () => {
+      const queue = new PromptQueue({ maxLength: 5, maxPerUser: 5 });
+      const first = deferredTask();
+      const second = deferredTask();
+      queue.enqueue("alice", first.task);
+      queue.enqueue("alice", second.task);
+      await flush();
+
+      const drained = queue.drain(1000);
+      first.finish("first");
+      await flush();
+      second.finish("second");
+
+      expect(await drained).toBe(true);
+      expect(queue.length).toBe(0);
+    });
+
+    it("cancels the requests still unfinished after the timeout", async () => {
+      const queue = new PromptQueue({ maxLength: 5, maxPerUser: 5 });
+      const first = deferredTask();
+      const second = deferredTask();
+      const a = queue.enqueue("alice", first.task);
+      const b = queue.enqueue("alice", second.task);
+      const results = Promise.allSettled([a.result, b.result]);
+
+      expect(await queue.drain(10)).toBe(false);
+
+      expect(first.getSignal()?.aborted).toBe(true);
+      expect(second.isStarted()).toBe(false);
+      expect(
+        (await results).map((result) => result.status === "rejected")
+      ).toEqual([true, true]);
+      expect(queue.getRequests("alice")).toEqual([]);
+    });
+  });
+});
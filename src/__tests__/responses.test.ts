@@ -0,0 +1,171 @@
+import request from "supertest";
+import app from "../app";
+import ResponseModel from "../models/response.model";
+import {
+  asUser,
+  clearDatabase,
+  connectDatabase,
+  disconnectDatabase,
+  registerUser,
+  TestUser,
+} from "./harness";
+
+let user: TestUser;
+
+beforeAll(connectDatabase);
+
+beforeEach(async () => {
+  user = await registerUser();
+});
+
+afterEach(clearDatabase);
+afterAll(disconnectDatabase);
+
+describe("/api/responses", () => {
+  it("creates, reads, updates and deletes a response", async () => {
+    const created = await request(app)
+      .post("/api/responses")
+      .set(asUser(user))
+      .send({ input: "What is 2 + 2?", output: "4" })
+      .expect(201);
+    expect(created.body).toMatchObject({
+      input: "What is 2 + 2?",
+      output: "4",
+      userId: user.id,
+    });
+    const path = `/api/responses/${created.body._id}`;
+
+    await request(app)
+      .get(path)
+      .set(asUser(user))
+      .expect(200)
+      .expect((res) => expect(res.body.output).toBe("4"));
+
+    await request(app)
+      .put(path)
+      .set(asUser(user))
+      .send({ output: "Four" })
+      .expect(200)
+      .expect((res) => expect(res.body.output).toBe("Four"));
+
+    await request(app).delete(path).set(asUser(user)).expect(200);
+    await request(app).get(path).set(asUser(user)).expect(404);
+  });
+
+  it("lists the responses of the user", async () => {
+    await request(app)
+      .post("/api/responses")
+      .set(asUser(user))
+      .send({ input: "Hello", output: "Hi" })
+      .expect(201);
+
+    const res = await request(app)
+      .get(`/api/responses/user/${user.id}`)
+      .set(asUser(user))
+      .expect(200);
+    expect(res.body).toMatchObject([{ input: "Hello", output: "Hi" }]);
+  });
+
+  it("rejects invalid bodies and ids", async () => {
+    await request(app)
+      .post("/api/responses")
+      .set(asUser(user))
+      .send({ input: "No output" })
+      .expect(400);
+    await request(app)
+      .get("/api/responses/not-an-id")
+      .set(asUser(user))
+      .expect(400);
+    await request(app)
+      .get("/api/responses/user/not-an-id")
+      .set(asUser(user))
+      .expect(400);
+  });
+
+  it("only lets admins list the responses of every user", async () => {
+    const admin = await registerUser({ admin: true });
+
+    await request(app).get("/api/responses").set(asUser(user)).expect(403);
+    await request(app).get("/api/responses").set(asUser(admin)).expect(200);
+  });
+
+  it("requires a token", async () => {
+    await request(app).get("/api/responses").expect(401);
+  });
+});
+
+describe("ownership", () => {
+  let other: TestUser;
+  let path: string;
+
+  beforeEach(async () => {
+    other = await registerUser();
+    const created = await request(app)
+      .post("/api/responses")
+      .set(asUser(user))
+      .send({ input: "My secret question", output: "My secret answer" })
+      .expect(201);
+    path = `/api/responses/${created.body._id}`;
+  });
+
+  it("hides a response from other users", async () => {
+    await request(app).get(path).set(asUser(other)).expect(404);
+    await request(app)
+      .get(`/api/responses/user/${user.id}`)
+      .set(asUser(other))
+      .expect(403);
+  });
+
+  it("keeps other users from changing or deleting a response", async () => {
+    await request(app)
+      .put(path)
+      .set(asUser(other))
+      .send({ output: "Changed" })
+      .expect(404);
+    await request(app).delete(path).set(asUser(other)).expect(404);
+
+    await request(app)
+      .get(path)
+      .set(asUser(user))
+      .expect(200)
+      .expect((res) => expect(res.body.output).toBe("My secret answer"));
+  });
+
+  it("lets admins read and change the responses of every user", async () => {
+    const admin = await registerUser({ admin: true });
+
+    await request(app).get(path).set(asUser(admin)).expect(200);
+    await request(app)
+      .get(`/api/responses/user/${user.id}`)
+      .set(asUser(admin))
+      .expect(200)
+      .expect((res) => expect(res.body).toHaveLength(1));
+    await request(app)
+      .put(path)
+      .set(asUser(admin))
+      .send({ output: "Moderated" })
+      .expect(200);
+  });
+
+  it("lets users save the same input as another user", async () => {
+    await request(app)
+      .post("/api/responses")
+      .set(asUser(other))
+      .send({ input: "My secret question", output: "Another answer" })
+      .expect(201);
+  });
+
+  it("drops the unique input index of older databases", async () => {
+    await ResponseModel.collection.createIndex({ input: 1 }, { unique: true });
+
+    await ResponseModel.syncIndexes();
+
+    const indexes = await ResponseModel.collection.indexes();
+    expect(indexes.map(({ name }) => name)).not.toContain("input_1");
+    await request(app)
+      .post("/api/responses")
+      .set(asUser(other))
+      .send({ input: "My secret question", output: "Another answer" })
+      .expect(201);
+  });
+});
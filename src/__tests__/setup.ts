@@ -0,0 +1,19 @@
+import path from "path";
+
+/**
+ * The model the bot pool runs during tests, answered by the fake gpt4all executable.
+ */
+export const FAKE_MODEL = "test-fake-gpt4all";
+
+// the settings are read when the modules of the server load, so they are set before any test runs
+process.env.JWT_SECRET = "test-secret";
+process.env.GPT4ALL_EXECUTABLE = path.resolve(
+  __dirname,
+  "../../scripts/fake-gpt4all.mjs"
+);
+process.env.BOT_POOL_MODELS = FAKE_MODEL;
+process.env.BOT_POOL_SIZE = "1";
+process.env.BOT_RESTART_DELAY_MS = "100";
+process.env.ADMIN_EMAILS = "";
+delete process.env.SMTP_URL;
+delete process.env.MAIL_DIR;
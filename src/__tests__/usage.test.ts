@@ -0,0 +1,132 @@
+import { Types } from "mongoose";
+import Usage from "../models/usage.model";
+import { clearDatabase, connectDatabase, disconnectDatabase } from "./harness";
+
+process.env.DAILY_PROMPT_QUOTA = "3";
+process.env.API_KEY_DAILY_PROMPT_QUOTA = "2";
+
+// the quotas are read when the module is loaded
+let usage: typeof import("../usage");
+let userId: string;
+
+beforeAll(async () => {
+  usage = await import("../usage");
+  await connectDatabase();
+  await Usage.init();
+});
+
+beforeEach(() => {
+  userId = new Types.ObjectId().toString();
+});
+
+afterEach(clearDatabase);
+afterAll(disconnectDatabase);
+
+describe("checkPromptAllowance", () => {
+  it("counts allowed prompts against the daily prompt quota", async () => {
+    for (let i = 0; i < 3; i++) {
+      expect((await usage.checkPromptAllowance({ id: userId })).allowed).toBe(
+        true
+      );
+    }
+
+    const denied = await usage.checkPromptAllowance({ id: userId });
+
+    expect(denied).toMatchObject({
+      allowed: false,
+      message: "Daily prompt quota exceeded.",
+      retryAfter: expect.any(Number),
+      headers: {
+        "RateLimit-Policy": "3;w=86400",
+        "RateLimit-Limit": "3",
+        "RateLimit-Remaining": "0",
+        "RateLimit-Reset": String(denied.retryAfter),
+      },
+    });
+    expect((await usage.getUsage(userId)).prompts).toBe(3);
+  });
+
+  it("does not let concurrent prompts exceed the quota", async () => {
+    const allowances = await Promise.all(
+      Array.from({ length: 6 }, () =>
+        usage.checkPromptAllowance({ id: userId })
+      )
+    );
+
+    expect(allowances.filter(({ allowed }) => allowed)).toHaveLength(3);
+    expect((await usage.getUsage(userId)).prompts).toBe(3);
+  });
+
+  it("limits the daily prompts of each API key", async () => {
+    const apiKeyId = new Types.ObjectId().toString();
+
+    await usage.checkPromptAllowance({ id: userId, apiKeyId });
+    await usage.checkPromptAllowance({ id: userId, apiKeyId });
+    const denied = await usage.checkPromptAllowance({ id: userId, apiKeyId });
+
+    expect(denied).toMatchObject({
+      allowed: false,
+      message: "Daily prompt quota of the API key exceeded.",
+      headers: { "RateLimit-Limit": "2", "RateLimit-Remaining": "0" },
+    });
+    // the user and their other keys can still use the rest of the quota of the user
+    expect(
+      (
+        await usage.checkPromptAllowance({
+          id: userId,
+          apiKeyId: new Types.ObjectId().toString(),
+        })
+      ).allowed
+    ).toBe(true);
+  });
+
+  it("sends the rate limit headers with allowed prompts", async () => {
+    const allowance = await usage.checkPromptAllowance({ id: userId });
+
+    expect(allowance.headers).toMatchObject({
+      "RateLimit-Limit": "20",
+      "RateLimit-Remaining": "19",
+    });
+  });
+});
+
+describe("refundPrompt", () => {
+  it("gives back a prompt to the quotas and the rate limit", async () => {
+    const apiKeyId = new Types.ObjectId().toString();
+    await usage.checkPromptAllowance({ id: userId, apiKeyId });
+    await usage.checkPromptAllowance({ id: userId, apiKeyId });
+
+    await usage.refundPrompt({ id: userId, apiKeyId });
+
+    expect((await usage.getUsage(userId)).prompts).toBe(1);
+    const allowance = await usage.checkPromptAllowance({
+      id: userId,
+      apiKeyId,
+    });
+    expect(allowance).toMatchObject({
+      allowed: true,
+      headers: { "RateLimit-Remaining": "58" },
+    });
+  });
+
+  it("does not count below zero", async () => {
+    await usage.refundPrompt({ id: userId });
+
+    expect((await usage.getUsage(userId)).prompts).toBe(0);
+  });
+});
+
+describe("recordUsage", () => {
+  it("counts the characters of an answer without counting the prompt again", async () => {
+    await usage.checkPromptAllowance({ id: userId });
+
+    await usage.recordUsage(userId, 40);
+
+    expect(await usage.getUsage(userId)).toMatchObject({
+      prompts: 1,
+      characters: 40,
+      tokens: 10,
+      remaining: { prompts: 2 },
+    });
+  });
+});
@@ -0,0 +1,101 @@
+import { createHash } from "crypto";
+import jwt from "jsonwebtoken";
+import User, { IUser } from "./models/user.model";
+
+const resetTokenTtl = process.env.RESET_TOKEN_TTL || "1h";
+const verificationTokenTtl = process.env.VERIFICATION_TOKEN_TTL || "24h";
+
+// the audience keeps the tokens apart from each other and from access tokens
+const RESET_AUDIENCE = "reset-password";
+const VERIFICATION_AUDIENCE = "verify-email";
+
+/**
+ * Error thrown when a password reset or email verification token is not valid, expired, or was
+ * already used.
+ */
+export class InvalidAccountTokenError extends Error {
+  constructor() {
+    super("Token is not valid or has expired.");
+    this.name = "InvalidAccountTokenError";
+  }
+}
+
+interface ResetTokenPayload {
+  id: string;
+  /** A fingerprint of the password hash, so the token stops working once the password changed. */
+  pwd: string;
+}
+
+interface VerificationTokenPayload {
+  id: string;
+  email: string;
+}
+
+const getPasswordFingerprint = (user: IUser): string =>
+  createHash("sha256").update(user.password).digest("hex").slice(0, 16);
+
+const verify = <T>(token: string, audience: string): T => {
+  try {
+    return jwt.verify(String(token), process.env.JWT_SECRET || "", {
+      audience,
+    }) as T;
+  } catch (error) {
+    throw new InvalidAccountTokenError();
+  }
+};
+
+/**
+ * This function signs a token to reset the password of a user. It can only be used once, as it stops
+ * working when the password changes.
+ * @param {IUser} user - The user resetting their password.
+ */
+export const signResetToken = (user: IUser): string =>
+  jwt.sign(
+    { id: user.id, pwd: getPasswordFingerprint(user) },
+    process.env.JWT_SECRET || "",
+    { audience: RESET_AUDIENCE, expiresIn: resetTokenTtl }
+  );
+
+/**
+ * This function checks a password reset token against the user it was signed for.
+ * @param {string} token - The password reset token.
+ * @returns A Promise that resolves with the user.
+ * @throws {InvalidAccountTokenError} If the token is not valid, expired, or was already used.
+ */
+export const verifyResetToken = async (token: string): Promise<IUser> => {
+  const { id, pwd } = verify<ResetTokenPayload>(token, RESET_AUDIENCE);
+  const user = await User.findById(id);
+
+  if (!user || getPasswordFingerprint(user) !== pwd) {
+    throw new InvalidAccountTokenError();
+  }
+
+  return user;
+};
+
+/**
+ * This function signs a token verifying that a user owns an email address.
+ * @param {IUser} user - The user verifying the address.
+ * @param {string} email - The address to verify, which is the new address when changing it.
+ */
+export const signVerificationToken = (user: IUser, email: string): string =>
+  jwt.sign({ id: user.id, email }, process.env.JWT_SECRET || "", {
+    audience: VERIFICATION_AUDIENCE,
+    expiresIn: verificationTokenTtl,
+  });
+
+/**
+ * This function reads an email verification token.
+ * @param {string} token - The email verification token.
+ * @returns The id of the user and the verified email address.
+ * @throws {InvalidAccountTokenError} If the token is not valid or expired.
+ */
+export const verifyVerificationToken = (
+  token: string
+): VerificationTokenPayload => {
+  const { id, email } = verify<VerificationTokenPayload>(
+    token,
+    VERIFICATION_AUDIENCE
+  );
+  return { id, email };
+};
@@ -0,0 +1,66 @@
+import { createHash, randomBytes } from "crypto";
+import ApiKey, { ApiKeyScope, IApiKey } from "./models/apiKey.model";
+
+/** Every API key starts with this prefix, which tells them apart from JWTs. */
+export const API_KEY_PREFIX = "amm_";
+
+/**
+ * Error thrown when an API key is unknown or was revoked.
+ */
+export class InvalidApiKeyError extends Error {
+  constructor() {
+    super("API key is not valid.");
+    this.name = "InvalidApiKeyError";
+  }
+}
+
+const hashKey = (key: string): string =>
+  createHash("sha256").update(key).digest("hex");
+
+export const isApiKey = (token: string): boolean =>
+  token.startsWith(API_KEY_PREFIX);
+
+/**
+ * This function creates an API key for a user. Only the hash of the key is saved.
+ * @param {string} userId - The id of the user owning the key.
+ * @param {string} name - A name for the key, e.g. the script using it.
+ * @param {ApiKeyScope[]} scopes - What the key may be used for.
+ * @returns A Promise that resolves with the saved key and the key itself, which cannot be read again.
+ */
+export const createApiKey = async (
+  userId: string,
+  name: string,
+  scopes: ApiKeyScope[]
+): Promise<{ apiKey: IApiKey; key: string }> => {
+  const key = `${API_KEY_PREFIX}${randomBytes(32).toString("hex")}`;
+
+  const apiKey = await new ApiKey({
+    userId,
+    name,
+    keyHash: hashKey(key),
+    prefix: key.slice(0, API_KEY_PREFIX.length + 8),
+    scopes: [...new Set(scopes)],
+  }).save();
+
+  return { apiKey, key };
+};
+
+/**
+ * This function looks up an API key and records that it was used.
+ * @param {string} key - The API key sent with a request.
+ * @returns A Promise that resolves with the API key.
+ * @throws {InvalidApiKeyError} If the key is unknown or was revoked.
+ */
+export const authenticateApiKey = async (key: string): Promise<IApiKey> => {
+  const apiKey = await ApiKey.findOneAndUpdate(
+    { keyHash: hashKey(key), revokedAt: { $exists: false } },
+    { lastUsedAt: new Date() },
+    { new: true }
+  );
+
+  if (!apiKey) {
+    throw new InvalidApiKeyError();
+  }
+
+  return apiKey;
+};
@@ -0,0 +1,43 @@
+import express, { Request, Response } from "express";
+import cors from "cors";
+import AuthRoutes from "./routes/user.routes";
+import ResponseRoutes from "./routes/response.routes";
+import BotRoutes from "./routes/bot.routes";
+import LLMRoutes from "./routes/llm.routes";
+import ConversationRoutes from "./routes/conversation.routes";
+import MeRoutes from "./routes/me.routes";
+import HealthRoutes from "./routes/health.routes";
+import OpenAIRoutes from "./routes/openai.routes";
+import { openAIErrors } from "./middlewares/openai.middleware";
+import { requireServer } from "./middlewares/readiness.middleware";
+
+/**
+ * The Express app serving the API. It does not listen, connect to MongoDB or start the bot pool, which
+ * `index.ts` does, so it can also be mounted by other servers and test harnesses.
+ */
+const app = express();
+
+app.use(cors());
+app.use(express.json());
+
+app.use("/api/health", HealthRoutes);
+
+// Errors of the OpenAI-compatible API are sent in the format of the OpenAI API
+app.use("/v1", openAIErrors);
+
+// Requests wait for MongoDB, and are not taken anymore once the server shuts down
+app.use(requireServer);
+
+app.use("/api/auth", AuthRoutes);
+app.use("/api/responses", ResponseRoutes);
+app.use("/api/bot", BotRoutes);
+app.use("/api/llm", LLMRoutes);
+app.use("/api/conversations", ConversationRoutes);
+app.use("/api/users/me", MeRoutes);
+app.use("/v1", OpenAIRoutes);
+
+app.use("*", (_req: Request, res: Response) => {
+  res.status(404).json({ message: "Not found" });
+});
+
+export default app;
@@ -0,0 +1,72 @@
+import path from "path";
+import { getModelPath, Gpt4AllBackend } from "../gpt4all.backend";
+import { PromptCancelledError, PromptTimeoutError } from "../model.backend";
+import { FAKE_MODEL } from "../../__tests__/setup";
+
+describe("getModelPath", () => {
+  it("puts the file of a model in the models directory", () => {
+    expect(getModelPath("gpt4all-lora-quantized")).toBe(
+      path.resolve("models", "gpt4all-lora-quantized.bin")
+    );
+    expect(getModelPath("ggml-model.q4_0")).toBe(
+      path.resolve("models", "ggml-model.q4_0.bin")
+    );
+  });
+
+  it("rejects names that leave the models directory", () => {
+    for (const name of [
+      "../../x",
+      "../models/x",
+      "a/b",
+      "/etc/passwd",
+      "..",
+      "",
+    ]) {
+      expect(() => getModelPath(name)).toThrow("Invalid model name");
+    }
+  });
+});
+
+describe("Gpt4AllBackend", () => {
+  let backend: Gpt4AllBackend;
+
+  beforeEach(async () => {
+    backend = new Gpt4AllBackend(FAKE_MODEL, { temp: 0.1 });
+    await backend.open();
+  });
+
+  afterEach(() => {
+    backend.close();
+    delete process.env.FAKE_GPT4ALL_STARTUP_MS;
+  });
+
+  it("restarts with the decoder settings of a prompt", async () => {
+    await expect(
+      backend.prompt("hello", { decoder: { temp: 0.5 } })
+    ).resolves.toBe("You said: hello");
+  });
+
+  it("times out while restarting for other decoder settings", async () => {
+    process.env.FAKE_GPT4ALL_STARTUP_MS = "5000";
+
+    await expect(
+      backend.prompt("hello", { decoder: { temp: 0.5 }, timeout: 100 })
+    ).rejects.toThrow(new PromptTimeoutError(100));
+  });
+
+  it("is cancelled while restarting for other decoder settings", async () => {
+    process.env.FAKE_GPT4ALL_STARTUP_MS = "5000";
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 50);
+    const startedAt = Date.now();
+
+    await expect(
+      backend.prompt("hello", {
+        decoder: { temp: 0.5 },
+        signal: controller.signal,
+      })
+    ).rejects.toBeInstanceOf(PromptCancelledError);
+    // without waiting for the restart
+    expect(Date.now() - startedAt).toBeLessThan(1000);
+  });
+});
@@ -0,0 +1,129 @@
+import { parseGpt4AllOutput, toInputLine } from "../gpt4all.parser";
+
+// recorded from the gpt4all-lora-quantized chat executable: the startup banner, the reset of the
+// colors once a prompt is sent, and the colored input marker printed after every answer
+const BANNER =
+  "== Running in chat mode. ==\n" +
+  " - Press Ctrl+C to interject at any time.\n" +
+  " - Press Return to return control to LLaMA.\n" +
+  " - If you want to submit another line, end your input in '\\'.\n\n" +
+  "\x1b[33m\n> \x1b[1m\x1b[32m";
+const RESET = "\x1b[0m";
+const INPUT_MARKER = "\x1b[33m\n> \x1b[1m\x1b[32m";
+
+/**
+ * Feeds output to the parser chunk by chunk until it is done, like the backend does while the
+ * executable writes it, and checks that the answer only grows, so what was streamed is never taken
+ * back.
+ */
+const replay = (chunks: string[], input?: string) => {
+  let output = "";
+  let answer = "";
+  let done = false;
+  const answers: string[] = [];
+
+  for (const chunk of chunks) {
+    output += chunk;
+
+    const parsed = parseGpt4AllOutput(output, input);
+    expect(parsed.answer.startsWith(answer)).toBe(true);
+    answer = parsed.answer;
+    done = parsed.done;
+    answers.push(answer);
+
+    if (done) {
+      break;
+    }
+  }
+
+  return { answer, done, answers };
+};
+
+/**
+ * Splits text into chunks of a few characters, cutting through escape sequences and markers.
+ */
+const chunk = (text: string, size = 3): string[] =>
+  text.match(new RegExp(`[\\s\\S]{1,${size}}`, "g")) || [];
+
+describe("toInputLine", () => {
+  it("flattens a multi-line prompt into a single line", () => {
+    expect(toInputLine("### Instruction:\nSay hi\n\n### Response:\n")).toBe(
+      "### Instruction: Say hi ### Response:"
+    );
+  });
+});
+
+describe("parseGpt4AllOutput", () => {
+  it("detects the input marker after the startup banner", () => {
+    const banner = BANNER.slice(0, -INPUT_MARKER.length);
+
+    expect(replay(chunk(banner, 7)).done).toBe(false);
+    expect(replay(chunk(BANNER, 7)).done).toBe(true);
+  });
+
+  it("removes escape sequences, also when they are split across chunks", () => {
+    const { answer, done, answers } = replay(
+      chunk(`${RESET}Hello world, how are you?${INPUT_MARKER}`)
+    );
+
+    expect(answer).toBe("Hello world, how are you?");
+    expect(done).toBe(true);
+    expect(answers.join("")).not.toContain("\x1b");
+    expect(answers.join("")).not.toContain("[0m");
+  });
+
+  it("keeps > inside answers", () => {
+    const { answer, done } = replay([
+      RESET,
+      "Yes",
+      ",",
+      " 2",
+      " >",
+      " 1",
+      ".",
+      "\n",
+      ">",
+      " Quoted",
+      " line",
+      "\n",
+      "a",
+      " ->",
+      " b",
+      INPUT_MARKER,
+    ]);
+
+    expect(answer).toBe("Yes, 2 > 1.\n> Quoted line\na -> b");
+    expect(done).toBe(true);
+  });
+
+  it("removes the echo of a multi-line prompt", () => {
+    const input = toInputLine("Summarize this:\nFirst line\n  Second line");
+    const { answer, done, answers } = replay(
+      [...chunk(`${input}\n`, 5), RESET, "A", " summary", ".", INPUT_MARKER],
+      input
+    );
+
+    expect(answer).toBe("A summary.");
+    expect(done).toBe(true);
+    expect(answers.some((it) => it.includes("line"))).toBe(false);
+  });
+
+  it("waits for the whole input marker when it arrives in pieces", () => {
+    const { answer, done, answers } = replay([
+      RESET,
+      "Done",
+      ".",
+      ...chunk(INPUT_MARKER, 1),
+    ]);
+
+    expect(answer).toBe("Done.");
+    expect(done).toBe(true);
+    expect(answers.filter((it) => it.includes(">"))).toEqual([]);
+  });
+
+  it("is not done before the input marker", () => {
+    expect(
+      parseGpt4AllOutput(`${RESET}Still thinking about it\n`, "question")
+    ).toEqual({ answer: "Still thinking about it", done: false });
+  });
+});
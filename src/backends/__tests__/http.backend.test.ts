@@ -0,0 +1,161 @@
+import http, { IncomingMessage, ServerResponse } from "http";
+import { AddressInfo } from "net";
+import { BotExitedError, PromptCancelledError } from "../model.backend";
+import { HttpBackend } from "../http.backend";
+
+type Handler = (req: IncomingMessage, res: ServerResponse) => void;
+
+let server: http.Server;
+let url: string;
+// what the stub server does when a prompt is sent, set by each test
+let onCompletion: Handler;
+
+/**
+ * Starts writing a streamed answer and returns a function writing one event of it.
+ */
+const startEvents = (res: ServerResponse) => {
+  res.writeHead(200, { "Content-Type": "text/event-stream" });
+  return (data: unknown) =>
+    res.write(
+      `data: ${typeof data === "string" ? data : JSON.stringify(data)}\n\n`
+    );
+};
+
+const openAIEvent = (text: string) => ({ choices: [{ text }] });
+
+const openBackend = async (api: "openai" | "llamacpp" = "openai") => {
+  const backend = new HttpBackend("stub-model", {}, { type: "http", url, api });
+  await backend.open();
+  return backend;
+};
+
+beforeAll(async () => {
+  server = http.createServer((req, res) => {
+    if (req.url === "/v1/models" || req.url === "/health") {
+      res.end("{}");
+    } else {
+      onCompletion(req, res);
+    }
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+describe("HttpBackend", () => {
+  it("streams an OpenAI answer until [DONE]", async () => {
+    onCompletion = (req, res) => {
+      const send = startEvents(res);
+      send(openAIEvent("Hello"));
+      send(openAIEvent(" world"));
+      send("[DONE]");
+      // the connection staying open does not keep the prompt waiting
+    };
+    const backend = await openBackend();
+    const chunks: string[] = [];
+
+    await expect(
+      backend.prompt("Hi", { onData: (chunk) => chunks.push(chunk) })
+    ).resolves.toBe("Hello world");
+    expect(chunks).toEqual(["Hello", " world"]);
+  });
+
+  it("streams a llama.cpp answer until its final event", async () => {
+    onCompletion = (req, res) => {
+      const send = startEvents(res);
+      send({ content: "Hi", stop: false });
+      send({ content: " there", stop: false });
+      send({ content: "", stop: true });
+    };
+    const backend = await openBackend("llamacpp");
+
+    await expect(backend.prompt("Hi")).resolves.toBe("Hi there");
+  });
+
+  it("decodes characters split between chunks", async () => {
+    onCompletion = (req, res) => {
+      res.writeHead(200, { "Content-Type": "text/event-stream" });
+      const event = Buffer.from(
+        `data: ${JSON.stringify(openAIEvent("Grüße 🙂"))}\n\ndata: [DONE]\n\n`
+      );
+      // cut through the bytes of the emoji
+      const cut = event.indexOf("🙂") + 2;
+      res.write(event.subarray(0, cut));
+      setTimeout(() => res.end(event.subarray(cut)), 20);
+    };
+    const backend = await openBackend();
+
+    await expect(backend.prompt("Hi")).resolves.toBe("Grüße 🙂");
+  });
+
+  it("fails and exits when the answer ends before [DONE]", async () => {
+    onCompletion = (req, res) => {
+      startEvents(res)(openAIEvent("Cut"));
+      res.end();
+    };
+    const backend = await openBackend();
+    const onExit = jest.fn();
+    backend.on("exit", onExit);
+
+    await expect(backend.prompt("Hi")).rejects.toBeInstanceOf(BotExitedError);
+    expect(onExit).toHaveBeenCalledTimes(1);
+    expect(backend.isOpen).toBe(false);
+  });
+
+  it("fails and exits when the connection is lost", async () => {
+    onCompletion = (req, res) => {
+      startEvents(res)(openAIEvent("Cut"));
+      res.destroy();
+    };
+    const backend = await openBackend();
+    const onExit = jest.fn();
+    backend.on("exit", onExit);
+
+    await expect(backend.prompt("Hi")).rejects.toBeInstanceOf(BotExitedError);
+    expect(onExit).toHaveBeenCalledTimes(1);
+
+    // the pool opens the backend again, which checks the server
+    onCompletion = (req, res) => {
+      const send = startEvents(res);
+      send(openAIEvent("Back"));
+      send("[DONE]");
+    };
+    await backend.open();
+    await expect(backend.prompt("Hi")).resolves.toBe("Back");
+  });
+
+  it("keeps running when the server rejects a prompt", async () => {
+    onCompletion = (req, res) => {
+      res.writeHead(400).end('{"error":"bad request"}');
+    };
+    const backend = await openBackend();
+    const onExit = jest.fn();
+    backend.on("exit", onExit);
+
+    await expect(backend.prompt("Hi")).rejects.toThrow("400");
+    expect(onExit).not.toHaveBeenCalled();
+    expect(backend.isOpen).toBe(true);
+  });
+
+  it("cancels a prompt without exiting", async () => {
+    onCompletion = (req, res) => {
+      startEvents(res)(openAIEvent("Never"));
+    };
+    const backend = await openBackend();
+    const onExit = jest.fn();
+    backend.on("exit", onExit);
+    const controller = new AbortController();
+
+    const prompt = backend.prompt("Hi", {
+      signal: controller.signal,
+      onData: () => controller.abort(),
+    });
+
+    await expect(prompt).rejects.toBeInstanceOf(PromptCancelledError);
+    expect(onExit).not.toHaveBeenCalled();
+    expect(backend.isOpen).toBe(true);
+  });
+});
@@ -0,0 +1,525 @@
+import { exec, spawn } from "child_process";
+import { EventEmitter } from "events";
+import { promisify } from "util";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { DownloadSource, downloads } from "../downloads";
+import logger from "../logger";
+import { parseGpt4AllOutput, toInputLine } from "./gpt4all.parser";
+import { MODEL_NAME_PATTERN } from "../../shared/schemas/llm.schema";
+import {
+  BotExitedError,
+  BotPromptOptions,
+  DecoderSettings,
+  ModelBackend,
+  PromptCancelledError,
+  PromptTimeoutError,
+  streamFromPrompt,
+} from "./model.backend";
+
+// a custom or fake executable can be used instead of the downloaded one
+const executablePath =
+  process.env.GPT4ALL_EXECUTABLE || "./executables/builtBot";
+
+/**
+ * This function returns the path of the file of a gpt4all model, in the `models` directory.
+ * @param {string} model - The name of the model.
+ * @throws If the name would put the file outside of the `models` directory.
+ */
+export const getModelPath = (model: string): string => {
+  const directory = path.resolve("models");
+  const modelPath = path.resolve(directory, `${model}.bin`);
+
+  if (
+    !MODEL_NAME_PATTERN.test(model) ||
+    path.dirname(modelPath) !== directory
+  ) {
+    throw new Error(`Invalid model name: ${model}.`);
+  }
+
+  return modelPath;
+};
+
+/**
+ * The Gpt4AllBackend class runs a model with the gpt4all chat executable, talking to the process
+ * through its stdin and stdout.
+ */
+export class Gpt4AllBackend extends EventEmitter implements ModelBackend {
+  private bot: ReturnType<typeof spawn> | null = null;
+  private model: string;
+  private decoderConfig: DecoderSettings;
+  /** The decoder settings the running process was started with. */
+  private settings: DecoderSettings = {};
+  private executablePath: string;
+  private modelPath: string;
+  private source?: DownloadSource;
+  private ready = false;
+
+  /**
+   * This is a constructor function that initializes properties for a gpt4all model.
+   * @param [model=gpt4all-lora-quantized] - The name of the GPT-2 model to be used for generating
+   * text. The default value is "gpt4all-lora-quantized".
+   * @param {DecoderSettings} [decoderConfig] - The default decoder settings of the model, passed to
+   * the decoder.
+   * @param {DownloadSource} [source] - Where the model file is downloaded from and its checksum, from
+   * the catalog.
+   */
+  constructor(
+    model = "gpt4all-lora-quantized",
+    decoderConfig: DecoderSettings = {},
+    source?: DownloadSource
+  ) {
+    super();
+    this.model = model;
+    this.decoderConfig = decoderConfig;
+    this.source = source;
+
+    this.executablePath = executablePath;
+    this.modelPath = getModelPath(model);
+  }
+
+  /**
+   * Whether the bot process is running and ready for prompts.
+   */
+  get isOpen(): boolean {
+    return this.bot !== null && this.ready;
+  }
+
+  /**
+   * This function initializes a bot by downloading necessary files if they do not already exist.
+   */
+  async init(): Promise<void> {
+    const downloadPromises: Promise<void>[] = [];
+
+    if (!fs.existsSync(this.executablePath)) {
+      downloadPromises.push(this.downloadExecutable());
+    }
+
+    // downloads are only renamed to the model path once complete, but a file of the wrong size
+    // may still be left from before the catalog knew its size
+    if (
+      !fs.existsSync(this.modelPath) ||
+      (this.source?.size &&
+        fs.statSync(this.modelPath).size !== this.source.size)
+    ) {
+      downloadPromises.push(this.downloadModel());
+    }
+
+    await Promise.all(downloadPromises);
+    logger.info("Bot initialized.");
+  }
+
+  /**
+   * This function opens a bot and waits for it to be ready.
+   * @param {DecoderSettings} [settings] - The decoder settings passed to the executable, the ones of
+   * the model by default.
+   */
+  public async open(
+    settings: DecoderSettings = this.decoderConfig
+  ): Promise<void> {
+    if (this.bot !== null) {
+      this.close();
+    }
+
+    const spawnArgs = [this.executablePath, "--model", this.modelPath];
+
+    for (const [key, value] of Object.entries(settings)) {
+      if (value !== undefined) {
+        spawnArgs.push(`--${key}`, value.toString());
+      }
+    }
+
+    const child = spawn(spawnArgs[0], spawnArgs.slice(1), {
+      stdio: ["pipe", "pipe", "pipe"],
+      // passed explicitly, since the tests change the environment of the fake executable at runtime
+      env: process.env,
+    });
+    // decoding each chunk on its own would break characters whose bytes arrive in two chunks
+    child.stdout?.setEncoding("utf8");
+    child.stderr?.setEncoding("utf8");
+    this.bot = child;
+    this.settings = settings;
+    this.ready = false;
+
+    let exited = false;
+    let failure: Error | undefined;
+    const onExit = (code: number | null, signal: NodeJS.Signals | null) => {
+      // a process that fails to spawn may emit both an error and an exit
+      if (exited) {
+        return;
+      }
+      exited = true;
+
+      // close() forgets the process before killing it, anything else is unexpected
+      if (this.bot === child) {
+        this.bot = null;
+        this.ready = false;
+        logger.error(
+          `Bot exited unexpectedly (code: ${code}, signal: ${signal}).`
+        );
+        this.emit("exit", code, signal);
+      }
+    };
+
+    child.on("exit", onExit);
+    child.on("error", (error) => {
+      logger.error(`Bot process error: ${error.message}`);
+      failure = error;
+      onExit(null, null);
+    });
+    // writing a prompt to a process that just exited fails, the prompt is rejected on exit instead
+    child.stdin?.on("error", (error) => logger.warn(error.message));
+    this.logStderr(child);
+
+    // wait for the bot to be ready
+    await new Promise<void>((resolve, reject) => {
+      logger.info("Bot open.");
+      let output = "";
+      const onData = (data: string) => {
+        output += data;
+        if (parseGpt4AllOutput(output).done) {
+          detach();
+          resolve();
+        }
+      };
+      const onClose = () => {
+        detach();
+        reject(
+          failure || new Error(`Bot ${this.model} exited while starting.`)
+        );
+      };
+      const detach = () => {
+        child.stdout?.removeListener("data", onData);
+        child.stdout?.removeListener("close", onClose);
+      };
+
+      child.stdout?.on("data", onData);
+      child.stdout?.on("close", onClose);
+    });
+
+    if (this.bot === child) {
+      this.ready = true;
+      this.emit("ready");
+    }
+  }
+
+  /**
+   * This function writes every line the process prints to stderr, like the progress of loading the
+   * model or the reason of a crash, to the log.
+   */
+  private logStderr(child: ReturnType<typeof spawn>): void {
+    let pending = "";
+
+    child.stderr?.on("data", (data: string) => {
+      const lines = (pending + data).split(/\r?\n/);
+      pending = lines.pop() || "";
+      for (const line of lines.filter((it) => it.trim())) {
+        logger.info(`[${this.model}] ${line}`);
+      }
+    });
+    child.stderr?.on("close", () => {
+      if (pending.trim()) {
+        logger.info(`[${this.model}] ${pending}`);
+      }
+    });
+  }
+
+  /**
+   * This function closes the bot and logs a message indicating that it has been closed.
+   */
+  public close(): void {
+    if (this.bot?.stdout) {
+      this.bot.kill();
+      this.bot = null;
+      this.ready = false;
+      logger.info("Bot closed.");
+    }
+  }
+
+  /**
+   * This function downloads an executable file based on the user's operating system and sets the
+   * appropriate permissions.
+   */
+  private async downloadExecutable(): Promise<void> {
+    if (process.env.GPT4ALL_EXECUTABLE) {
+      throw new Error(`Executable ${this.executablePath} does not exist.`);
+    }
+
+    let upstream: string;
+    const platform = os.platform();
+
+    if (platform === "darwin") {
+      // check for M1 Mac
+      const { stdout } = await promisify(exec)("uname -m");
+      if (stdout.trim() === "arm64") {
+        upstream =
+          "https://github.com/nomic-ai/gpt4all/blob/main/chat/gpt4all-lora-quantized-OSX-m1?raw=true";
+      } else {
+        upstream =
+          "https://github.com/nomic-ai/gpt4all/blob/main/chat/gpt4all-lora-quantized-OSX-intel?raw=true";
+      }
+    } else if (platform === "linux") {
+      upstream =
+        "https://github.com/nomic-ai/gpt4all/blob/main/chat/gpt4all-lora-quantized-linux-x86?raw=true";
+    } else if (platform === "win32") {
+      upstream =
+        "https://github.com/nomic-ai/gpt4all/blob/main/chat/gpt4all-lora-quantized-win64.exe?raw=true";
+    } else {
+      throw new Error(
+        `Your platform is not supported: ${platform}. Current binaries supported are for OSX (ARM and Intel), Linux and Windows.`
+      );
+    }
+
+    await downloads.download("executable", this.executablePath, {
+      url: upstream,
+    });
+    await fs.promises.chmod(this.executablePath, 0o755);
+  }
+
+  /**
+   * This function downloads the model file from its catalog source.
+   */
+  private async downloadModel(): Promise<void> {
+    if (!this.source) {
+      throw new Error(`Model ${this.model} has no source URL.`);
+    }
+
+    await downloads.download(this.model, this.modelPath, this.source);
+  }
+
+  /**
+   * This function sends a prompt to the bot and resolves with the answer. The bot is restarted first
+   * if the prompt uses other decoder settings than the running process. The timeout of the prompt
+   * covers the restart.
+   * @param {string} prompt - The prompt to send.
+   * @param options - The decoder settings of the prompt, the other options are described in
+   * `promptRaw`.
+   */
+  public async prompt(
+    prompt: string,
+    options: BotPromptOptions = {}
+  ): Promise<string> {
+    const { decoder, signal, timeout, ...rest } = options;
+
+    // the executable only reads its settings on startup, so other settings need a restart
+    const settings = { ...this.decoderConfig, ...decoder };
+    if (!this.isOpen || this.hasSettings(settings)) {
+      return this.promptRaw(prompt, { ...rest, signal, timeout });
+    }
+
+    logger.info("Decoder settings changed. Restarting bot.");
+    const startedAt = Date.now();
+    await this.waitForRestart(this.open(settings), signal, timeout);
+
+    try {
+      return await this.promptRaw(prompt, {
+        ...rest,
+        signal,
+        timeout: timeout && Math.max(1, timeout - (Date.now() - startedAt)),
+      });
+    } catch (error) {
+      // the answer only had what was left of the timeout
+      throw error instanceof PromptTimeoutError && timeout
+        ? new PromptTimeoutError(timeout)
+        : error;
+    }
+  }
+
+  /**
+   * This function waits for the bot to restart, unless the prompt is cancelled or times out first.
+   * The restart goes on in that case, so the bot is ready for the next prompt.
+   * @param {Promise<void>} restart - The restart of the bot.
+   * @param {AbortSignal} [signal] - Cancels the prompt.
+   * @param {number} [timeout] - The number of milliseconds after which the prompt fails.
+   */
+  private waitForRestart(
+    restart: Promise<void>,
+    signal?: AbortSignal,
+    timeout?: number
+  ): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        detach();
+        reject(new PromptCancelledError());
+      };
+      const timeoutId = timeout
+        ? setTimeout(() => {
+            detach();
+            reject(new PromptTimeoutError(timeout));
+          }, timeout)
+        : undefined;
+      const detach = () => {
+        signal?.removeEventListener("abort", onAbort);
+        clearTimeout(timeoutId);
+      };
+
+      restart.then(
+        () => {
+          detach();
+          resolve();
+        },
+        (error) => {
+          detach();
+          reject(error);
+        }
+      );
+
+      if (signal?.aborted) {
+        onAbort();
+      } else {
+        signal?.addEventListener("abort", onAbort);
+      }
+    });
+  }
+
+  /**
+   * This function sends a prompt to the bot and yields the answer piece by piece.
+   * @param {string} prompt - The prompt to send.
+   * @param options - See `promptRaw`.
+   */
+  public stream(
+    prompt: string,
+    options: Omit<BotPromptOptions, "onData"> = {}
+  ): AsyncIterable<string> {
+    return streamFromPrompt((onData) =>
+      this.prompt(prompt, { ...options, onData })
+    );
+  }
+
+  /**
+   * This function checks whether the running process was started with the given decoder settings.
+   */
+  private hasSettings(settings: DecoderSettings): boolean {
+    const keys = new Set([
+      ...Object.keys(settings),
+      ...Object.keys(this.settings),
+    ]) as Set<keyof DecoderSettings>;
+
+    return [...keys].every((key) => settings[key] === this.settings[key]);
+  }
+
+  /**
+   * This function sends a prompt to the executable and returns a promise that resolves with the
+   * answer, read from stdout by `parseGpt4AllOutput`.
+   * @param {string} prompt - The prompt parameter is a string that represents the message or question
+   * that the bot will display to the user, prompting them to provide input.
+   * @param [options.onData] - An optional callback that receives every new piece of the answer as
+   * soon as the bot writes it, which lets callers stream the response before it is complete.
+   * @param [options.signal] - An optional `AbortSignal` cancelling the prompt.
+   * @param [options.timeout] - An optional number of milliseconds after which the prompt fails.
+   * @returns A Promise that resolves to a string. It rejects with a `PromptCancelledError` or a
+   * `PromptTimeoutError` if the prompt is cancelled or times out, in which case the bot process is
+   * restarted so the next prompt does not receive the rest of this answer.
+   */
+  private promptRaw(
+    prompt: string,
+    options: BotPromptOptions = {}
+  ): Promise<string> {
+    const { onData, signal, timeout } = options;
+
+    if (!this.bot?.stdin || !this.bot?.stdout || !this.ready) {
+      throw new Error("Bot is not initialized.");
+    }
+
+    if (signal?.aborted) {
+      return Promise.reject(new PromptCancelledError());
+    }
+
+    const stdout = this.bot.stdout;
+    const line = toInputLine(prompt);
+    this.bot.stdin.write(line + "\n");
+
+    return new Promise((resolve, reject) => {
+      let output = "";
+      let sent = 0;
+      let timeoutId: NodeJS.Timeout | undefined;
+
+      /**
+       * The function collects the data on stdout, reports the new part of the answer and resolves
+       * once the bot waits for the next prompt.
+       * @param {string} text - The text received on stdout, decoded as UTF-8.
+       */
+      const onStdoutData = (text: string) => {
+        logger.debug(`Received text: ${text}`); // Debug log: Show the received text
+        output += text;
+
+        const { answer, done } = parseGpt4AllOutput(output, line);
+        if (answer.length > sent) {
+          onData?.(answer.slice(sent));
+          sent = answer.length;
+        }
+
+        if (done) {
+          logger.debug(`Final response: ${JSON.stringify(answer)}`); // Debug log: Show the final response
+          terminateAndResolve(answer);
+        }
+      };
+
+      /**
+       * This function removes every listener attached for this prompt.
+       */
+      const detach = () => {
+        stdout.removeListener("data", onStdoutData);
+        stdout.removeListener("error", onStdoutError);
+        stdout.removeListener("close", onStdoutClose);
+        signal?.removeEventListener("abort", onAbort);
+        clearTimeout(timeoutId);
+      };
+
+      /**
+       * This function detaches the prompt and rejects with the error emitted by the stdout stream.
+       * @param {Error} err - The error emitted by the stdout stream.
+       */
+      const onStdoutError = (err: Error) => {
+        detach();
+        reject(err);
+      };
+
+      /**
+       * This function rejects the prompt when stdout closes before the response is complete, which
+       * happens when the bot process stops while answering.
+       */
+      const onStdoutClose = () => {
+        detach();
+        reject(new BotExitedError());
+      };
+
+      /**
+       * This function gives up on the prompt and restarts the bot, since the process would otherwise
+       * keep writing the abandoned answer.
+       * @param {Error} err - The error the prompt is rejected with.
+       */
+      const abandon = (err: Error) => {
+        detach();
+        reject(err);
+        logger.info(`${err.message} Restarting bot.`);
+        this.open(this.settings).catch((error) => logger.error(error));
+      };
+
+      const onAbort = () => abandon(new PromptCancelledError());
+
+      /**
+       * This function terminates a bot's stdout and resolves a final response.
+       * @param {string} finalResponse - finalResponse is a string parameter that represents the final
+       * response that will be resolved by the function.
+       */
+      const terminateAndResolve = (finalResponse: string) => {
+        detach();
+        resolve(finalResponse);
+      };
+
+      stdout.on("data", onStdoutData);
+      stdout.on("error", onStdoutError);
+      stdout.on("close", onStdoutClose);
+      signal?.addEventListener("abort", onAbort);
+
+      if (timeout) {
+        timeoutId = setTimeout(
+          () => abandon(new PromptTimeoutError(timeout)),
+          timeout
+        );
+      }
+    });
+  }
+}
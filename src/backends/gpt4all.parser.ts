@@ -0,0 +1,58 @@
+// escape sequences, like the colors of the chat executable, and an unfinished one at the end
+// eslint-disable-next-line no-control-regex
+const ANSI_SEQUENCE = /\x1b\[[0-9;?]*[ -/]*[@-~]|\x1b(\[[0-9;?]*[ -/]*)?$/g;
+
+// the executable waits for input after printing `> ` at the start of a line
+const INPUT_MARKER = /(^|\n)> $/;
+// the start of the input marker, when its space did not arrive yet
+const PARTIAL_INPUT_MARKER = /(^|\n)>$/;
+
+export interface Gpt4AllOutput {
+  /** The answer so far, without the echoed input, escape codes and surrounding whitespace. */
+  answer: string;
+  /** Whether the executable printed its input marker, ending the answer. */
+  done: boolean;
+}
+
+/**
+ * This function turns a prompt into the line sent to the executable. It reads one line per prompt,
+ * so a multi-line prompt (like a templated conversation) is flattened instead of being sent as
+ * several prompts.
+ * @param {string} prompt - The prompt to send.
+ */
+export const toInputLine = (prompt: string): string =>
+  prompt.trim().replace(/\s*\n\s*/g, " ");
+
+/**
+ * This function reads the answer from everything the gpt4all chat executable wrote to stdout since
+ * a prompt was sent. Escape codes are removed, and so is the input line if the executable echoes it.
+ * The answer ends at a `> ` alone at the start of the last line, which the executable prints when it
+ * waits for the next prompt, so a `>` anywhere else is kept as part of the answer. Models put spaces
+ * before words, so an answer line starting with `>` does not end with `> ` until the next word
+ * arrives. The answer only grows as more output arrives, so the text added since the last call can
+ * be streamed: a `>` that may be the start of the input marker is held back until the next output.
+ * @param {string} output - The output of the executable since the prompt was sent.
+ * @param {string} [input] - The line sent to the executable, see `toInputLine`.
+ */
+export const parseGpt4AllOutput = (
+  output: string,
+  input = ""
+): Gpt4AllOutput => {
+  let text = output.replace(ANSI_SEQUENCE, "").replace(/\r/g, "").trimStart();
+  const echo = input.trim();
+
+  if (echo && text.startsWith(echo)) {
+    text = text.slice(echo.length);
+  } else if (echo && echo.startsWith(text)) {
+    // the echo may not be complete yet
+    return { answer: "", done: false };
+  }
+
+  const marker = text.match(INPUT_MARKER);
+  if (marker) {
+    return { answer: text.slice(0, marker.index).trim(), done: true };
+  }
+
+  // trailing whitespace is held back, since it may precede the input marker
+  return { answer: text.replace(PARTIAL_INPUT_MARKER, "").trim(), done: false };
+};
@@ -0,0 +1,316 @@
+import { EventEmitter } from "events";
+import axios, { AxiosInstance, isAxiosError } from "axios";
+import { Readable } from "stream";
+import logger from "../logger";
+import {
+  BackendOptions,
+  BotExitedError,
+  BotPromptOptions,
+  DecoderSettings,
+  ModelBackend,
+  PromptCancelledError,
+  PromptTimeoutError,
+  streamFromPrompt,
+} from "./model.backend";
+
+/**
+ * The data of an event of a streamed answer, from an OpenAI compatible or a llama.cpp server.
+ */
+interface CompletionEvent {
+  /** The new text of the answer, from an OpenAI compatible server. */
+  choices?: { text?: string }[];
+  /** The new text of the answer, from a llama.cpp server. */
+  content?: string;
+  /** Whether this is the last event of the answer, from a llama.cpp server. */
+  stop?: boolean;
+}
+
+/**
+ * The HttpBackend class runs a model on an inference server, either one implementing the OpenAI
+ * completions API or a llama.cpp server. When the server cannot be reached or cuts an answer off,
+ * the backend emits `exit` like a crashed process, so the pool checks the server again before
+ * sending it more prompts.
+ */
+export class HttpBackend extends EventEmitter implements ModelBackend {
+  private client: AxiosInstance;
+  private api: "openai" | "llamacpp";
+  private model: string;
+  private decoderConfig: DecoderSettings;
+  private ready = false;
+
+  /**
+   * This is a constructor function that initializes the client of the inference server.
+   * @param {string} model - The name of the model, sent to OpenAI compatible servers unless
+   * `options.model` overrides it.
+   * @param decoderConfig - The gpt4all decoder settings, translated to the parameters of the API.
+   * @param {BackendOptions} options - The URL of the server, its API and its key.
+   */
+  constructor(
+    model: string,
+    decoderConfig: DecoderSettings,
+    options: BackendOptions
+  ) {
+    super();
+
+    if (!options.url) {
+      throw new Error(`Model ${model} has no inference server URL.`);
+    }
+
+    this.api = options.api || "openai";
+    this.model = options.model || model;
+    this.decoderConfig = decoderConfig;
+    this.client = axios.create({
+      baseURL: options.url.replace(/\/+$/, ""),
+      headers: options.apiKey
+        ? { Authorization: `Bearer ${options.apiKey}` }
+        : {},
+    });
+  }
+
+  /**
+   * Whether the server answered the last health check.
+   */
+  get isOpen(): boolean {
+    return this.ready;
+  }
+
+  /**
+   * The server hosts the model, so there is nothing to download.
+   */
+  async init(): Promise<void> {
+    logger.info(`Using inference server ${this.client.defaults.baseURL}.`);
+  }
+
+  /**
+   * This function checks that the server is reachable.
+   */
+  async open(): Promise<void> {
+    await this.client.get(this.api === "openai" ? "/v1/models" : "/health");
+    this.ready = true;
+    logger.info("Bot open.");
+    this.emit("ready");
+  }
+
+  /**
+   * There is no connection to close, the backend only stops accepting prompts.
+   */
+  close(): void {
+    if (this.ready) {
+      this.ready = false;
+      logger.info("Bot closed.");
+    }
+  }
+
+  /**
+   * This function sends a prompt to the server and streams the answer back.
+   * @param {string} prompt - The prompt to send.
+   * @param options - The chunk callback, abort signal, timeout and decoder settings of the prompt.
+   * @returns A Promise that resolves with the whole answer.
+   */
+  async prompt(
+    prompt: string,
+    options: BotPromptOptions = {}
+  ): Promise<string> {
+    const { onData, signal, timeout, decoder } = options;
+
+    if (!this.ready) {
+      throw new Error("Bot is not initialized.");
+    }
+
+    // settings are sent with every request, so they can change from one prompt to the next
+    const settings = { ...this.decoderConfig, ...decoder };
+    const [path, body] =
+      this.api === "openai"
+        ? ["/v1/completions", this.getOpenAIBody(prompt, settings)]
+        : ["/completion", this.getLlamaCppBody(prompt, settings)];
+
+    // a single controller aborts the request for both cancellation and the timeout, since the
+    // timeout of axios does not cover reading a streamed answer
+    const controller = new AbortController();
+    const onAbort = () => controller.abort();
+    signal?.addEventListener("abort", onAbort);
+    let timedOut = false;
+    const timeoutId = timeout
+      ? setTimeout(() => {
+          timedOut = true;
+          controller.abort();
+        }, timeout)
+      : undefined;
+
+    let response = "";
+    try {
+      const { data } = await this.client.post<Readable>(path, body, {
+        responseType: "stream",
+        signal: controller.signal,
+      });
+      controller.signal.addEventListener("abort", () => data.destroy());
+
+      await this.readEvents(data, (event) => {
+        const chunk =
+          this.api === "openai"
+            ? event.choices?.[0]?.text || ""
+            : event.content || "";
+
+        if (chunk && !controller.signal.aborted) {
+          response += chunk;
+          onData?.(chunk);
+        }
+      });
+    } catch (error) {
+      if (!controller.signal.aborted) {
+        throw this.onRequestError(error);
+      }
+    } finally {
+      signal?.removeEventListener("abort", onAbort);
+      clearTimeout(timeoutId);
+    }
+
+    if (timedOut) {
+      throw new PromptTimeoutError(timeout as number);
+    }
+
+    if (controller.signal.aborted) {
+      throw new PromptCancelledError();
+    }
+
+    return response.trim();
+  }
+
+  /**
+   * This function sends a prompt to the server and yields the answer piece by piece.
+   * @param {string} prompt - The prompt to send.
+   * @param options - The abort signal and timeout of the prompt.
+   */
+  stream(
+    prompt: string,
+    options: Omit<BotPromptOptions, "onData"> = {}
+  ): AsyncIterable<string> {
+    return streamFromPrompt((onData) =>
+      this.prompt(prompt, { ...options, onData })
+    );
+  }
+
+  /**
+   * This function stops the backend when a prompt failed because the server is gone, which is the
+   * case when it did not answer or stopped streaming before the end of the answer.
+   * @param {unknown} error - The error of the request.
+   * @returns The error to reject the prompt with, a `BotExitedError` if the server is gone.
+   */
+  private onRequestError(error: unknown): unknown {
+    const lost =
+      error instanceof BotExitedError ||
+      (isAxiosError(error) && !error.response);
+
+    if (!lost) {
+      return error;
+    }
+
+    logger.error(
+      `Inference server ${this.client.defaults.baseURL} stopped answering: ${
+        (error as Error).message
+      }`
+    );
+
+    if (this.ready) {
+      this.ready = false;
+      this.emit("exit", null, null);
+    }
+
+    return error instanceof BotExitedError ? error : new BotExitedError();
+  }
+
+  private getOpenAIBody(prompt: string, settings: DecoderSettings) {
+    const { temp, top_p, n_predict } = settings;
+
+    return {
+      model: this.model,
+      prompt,
+      stream: true,
+      temperature: temp,
+      top_p,
+      max_tokens: n_predict,
+    };
+  }
+
+  private getLlamaCppBody(prompt: string, settings: DecoderSettings) {
+    const { temp, top_k, top_p, n_predict, repeat_penalty } = settings;
+
+    return {
+      prompt,
+      stream: true,
+      temperature: temp,
+      top_k,
+      top_p,
+      n_predict,
+      repeat_penalty,
+    };
+  }
+
+  /**
+   * This function reads the Server-Sent Events of a streamed answer until the OpenAI `[DONE]` marker
+   * or the final llama.cpp event, whose `stop` is set, is received.
+   * @param {Readable} stream - The response body.
+   * @param onEvent - Receives the parsed JSON data of every event.
+   * @throws {BotExitedError} If the stream ends before the answer is complete.
+   */
+  private readEvents(
+    stream: Readable,
+    onEvent: (event: CompletionEvent) => void
+  ): Promise<void> {
+    return new Promise((resolve, reject) => {
+      let buffer = "";
+      let finished = false;
+      const finish = () => {
+        finished = true;
+        stream.destroy();
+        resolve();
+      };
+
+      // a character can be split between two chunks
+      stream.setEncoding("utf8");
+      stream.on("data", (data: string) => {
+        buffer += data;
+        const lines = buffer.split("\n");
+        buffer = lines.pop() || "";
+
+        for (const line of lines) {
+          if (!line.startsWith("data:")) {
+            continue;
+          }
+
+          const payload = line.slice(5).trim();
+          if (payload === "[DONE]") {
+            finish();
+            return;
+          }
+
+          let event: CompletionEvent | null = null;
+          try {
+            event = JSON.parse(payload);
+          } catch (error) {
+            // reported below
+          }
+          if (typeof event !== "object" || event === null) {
+            logger.error(`Invalid event from inference server: ${payload}`);
+            continue;
+          }
+
+          onEvent(event);
+          if (this.api === "llamacpp" && event.stop) {
+            finish();
+            return;
+          }
+        }
+      });
+      // a stream destroyed because the request was aborted also closes without ending
+      const onEnd = () => {
+        if (!finished) {
+          reject(new BotExitedError());
+        }
+      };
+      stream.on("end", onEnd);
+      stream.on("close", onEnd);
+      stream.on("error", reject);
+    });
+  }
+}
@@ -0,0 +1,133 @@
+import { EventEmitter } from "events";
+
+/**
+ * Error used to reject a prompt that was cancelled through its `AbortSignal`.
+ */
+export class PromptCancelledError extends Error {
+  constructor() {
+    super("Prompt was cancelled.");
+    this.name = "PromptCancelledError";
+  }
+}
+
+/**
+ * Error used to reject a prompt that did not finish within its timeout.
+ */
+export class PromptTimeoutError extends Error {
+  constructor(timeout: number) {
+    super(`Prompt timed out after ${timeout}ms.`);
+    this.name = "PromptTimeoutError";
+  }
+}
+
+/**
+ * Error used to reject a prompt whose backend stopped before the answer was complete.
+ */
+export class BotExitedError extends Error {
+  constructor() {
+    super("Bot exited before answering.");
+    this.name = "BotExitedError";
+  }
+}
+
+export interface BotPromptOptions {
+  /** Receives every new piece of the answer as soon as the backend produces it. */
+  onData?: (chunk: string) => void;
+  /** Cancels the prompt when aborted. */
+  signal?: AbortSignal;
+  /** The number of milliseconds after which the prompt fails, unlimited if not set. */
+  timeout?: number;
+  /** Overrides the decoder settings of the model for this prompt. */
+  decoder?: DecoderSettings;
+}
+
+/**
+ * The sampling settings of the decoder, named after the options of the gpt4all executable.
+ */
+export interface DecoderSettings {
+  temp?: number;
+  top_k?: number;
+  top_p?: number;
+  n_predict?: number;
+  repeat_penalty?: number;
+}
+
+/**
+ * The settings of an `LLM` document selecting the backend that runs the model.
+ */
+export interface BackendOptions {
+  type: "gpt4all" | "http";
+  /** The base URL of the server, for the http backend. */
+  url?: string;
+  /** The API spoken by the server, for the http backend. */
+  api?: "openai" | "llamacpp";
+  /** The key sent as a bearer token, for the http backend. */
+  apiKey?: string;
+  /** The model name sent to the server, defaults to the name of the LLM. */
+  model?: string;
+}
+
+/**
+ * A ModelBackend runs a model for a `Bot`. Backends emit a `ready` event every time they are ready
+ * for prompts and an `exit` event when they stop without being closed.
+ */
+export interface ModelBackend extends EventEmitter {
+  /** Whether the backend is ready for prompts. */
+  readonly isOpen: boolean;
+  /** Prepares everything the backend needs, like downloading files. */
+  init(): Promise<void>;
+  /** Starts the backend and waits for it to be ready. */
+  open(): Promise<void>;
+  /** Stops the backend. */
+  close(): void;
+  /** Sends a prompt and resolves with the whole answer. */
+  prompt(prompt: string, options?: BotPromptOptions): Promise<string>;
+  /** Sends a prompt and yields the answer piece by piece. */
+  stream(
+    prompt: string,
+    options?: Omit<BotPromptOptions, "onData">
+  ): AsyncIterable<string>;
+}
+
+/**
+ * This function turns a prompt reporting its output through a callback into an async iterable of
+ * the output, which is how backends implement `stream` on top of `prompt`.
+ * @param prompt - Runs the prompt, calling `onData` with each new piece of the answer.
+ */
+export const streamFromPrompt = (
+  prompt: (onData: (chunk: string) => void) => Promise<string>
+): AsyncIterable<string> => ({
+  async *[Symbol.asyncIterator]() {
+    const chunks: string[] = [];
+    let wake: (() => void) | null = null;
+    let done = false;
+    let failed = false;
+    let failure: unknown;
+
+    prompt((chunk) => {
+      chunks.push(chunk);
+      wake?.();
+    })
+      .catch((error) => {
+        failed = true;
+        failure = error;
+      })
+      .finally(() => {
+        done = true;
+        wake?.();
+      });
+
+    while (true) {
+      if (chunks.length) {
+        yield chunks.shift() as string;
+      } else if (failed) {
+        throw failure;
+      } else if (done) {
+        return;
+      } else {
+        await new Promise<void>((resolve) => (wake = resolve));
+        wake = null;
+      }
+    }
+  },
+});
@@ -0,0 +1,43 @@
+import LLM from "./models/llm.model";
+import logger from "./logger";
+
+/**
+ * The gpt4all models the server has always supported, added to the catalog so a fresh database can
+ * run them without any setup.
+ */
+export const DEFAULT_MODELS = [
+  {
+    name: "gpt4all-lora-quantized",
+    sourceUrl:
+      "https://the-eye.eu/public/AI/models/nomic-ai/gpt4all/gpt4all-lora-quantized.bin",
+    license: "GPL-3.0",
+    quantization: "q4_0",
+  },
+  {
+    name: "gpt4all-lora-unfiltered-quantized",
+    sourceUrl:
+      "https://the-eye.eu/public/AI/models/nomic-ai/gpt4all/gpt4all-lora-unfiltered-quantized.bin",
+    license: "GPL-3.0",
+    quantization: "q4_0",
+  },
+];
+
+/**
+ * This function adds the default models to the `LLM` catalog. Models that are already in the catalog
+ * are left untouched, so their settings can be changed.
+ */
+export const seedCatalog = async (): Promise<void> => {
+  const { upsertedCount } = await LLM.bulkWrite(
+    DEFAULT_MODELS.map((model) => ({
+      updateOne: {
+        filter: { name: model.name },
+        update: { $setOnInsert: model },
+        upsert: true,
+      },
+    }))
+  );
+
+  if (upsertedCount) {
+    logger.info(`Added ${upsertedCount} default models to the catalog.`);
+  }
+};
@@ -0,0 +1,86 @@
+import { Request, Response } from "express";
+import { isValidObjectId } from "mongoose";
+import ApiKey from "../models/apiKey.model";
+import { createApiKey } from "../apiKeys";
+import logger from "../logger";
+
+/**
+ * This function creates an API key for the logged in user, for scripts and integrations calling the
+ * API without logging in.
+ * @param {Request} req - Request object, which contains the `name` and `scopes` of the key in its body.
+ * @param {Response} res - `res` is an object representing the HTTP response that will be sent back to
+ * the client.
+ * @returns a response with a status code of 201, the saved key and the key itself, which is only
+ * returned once, a status code of 400 if the name or scopes are invalid, or a status code of 500 if the
+ * key could not be created.
+ */
+export const createKey = async (req: Request, res: Response) => {
+  try {
+    const { name, scopes } = req.body;
+    const { apiKey, key } = await createApiKey(
+      req.body.decoded.id,
+      name,
+      scopes
+    );
+
+    return res.status(201).json({ apiKey, key });
+  } catch (error: any) {
+    logger.error(error);
+    return res.status(500).json({ message: "Error creating API key." });
+  }
+};
+
+/**
+ * This function lists the API keys of the logged in user that were not revoked.
+ * @param {Request} req - Request object of the authenticated user.
+ * @param {Response} res - `res` is an object representing the HTTP response that will be sent back to
+ * the client.
+ * @returns a response with a status code of 200 and the keys, without the keys themselves, or a status
+ * code of 500 if they could not be fetched.
+ */
+export const getKeys = async (req: Request, res: Response) => {
+  try {
+    const apiKeys = await ApiKey.find({
+      userId: req.body.decoded.id,
+      revokedAt: { $exists: false },
+    }).sort({ createdAt: -1 });
+
+    return res.status(200).json(apiKeys);
+  } catch (error: any) {
+    logger.error(error);
+    return res.status(500).json({ message: "Error fetching API keys." });
+  }
+};
+
+/**
+ * This function revokes an API key of the logged in user. Requests with the key are rejected right
+ * away.
+ * @param {Request} req - Request object, which contains the `id` of the key in its parameters.
+ * @param {Response} res - `res` is an object representing the HTTP response that will be sent back to
+ * the client.
+ * @returns a response with a status code of 200 if the key was revoked, a status code of 404 if the
+ * user has no such key, or a status code of 500 if it could not be revoked.
+ */
+export const revokeKey = async (req: Request, res: Response) => {
+  try {
+    const apiKey = isValidObjectId(req.params.id)
+      ? await ApiKey.findOneAndUpdate(
+          {
+            _id: req.params.id,
+            userId: req.body.decoded.id,
+            revokedAt: { $exists: false },
+          },
+          { revokedAt: new Date() }
+        )
+      : null;
+
+    if (!apiKey) {
+      return res.status(404).json({ message: "API key not found." });
+    }
+
+    return res.status(200).json({ message: "API key revoked." });
+  } catch (error: any) {
+    logger.error(error);
+    return res.status(500).json({ message: "Error revoking API key." });
+  }
+};
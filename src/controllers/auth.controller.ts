@@ -1,9 +1,56 @@
 import { Request, Response } from "express";
 import bcrypt from "bcryptjs";
-import jwt from "jsonwebtoken";
+import { randomBytes } from "crypto";
 import User, { IUser } from "../models/user.model";
+import {
+  InvalidRefreshTokenError,
+  createSession,
+  refreshSession,
+  revokeAllSessions,
+  revokeSession,
+} from "../sessions";
+import {
+  InvalidAccountTokenError,
+  signResetToken,
+  signVerificationToken,
+  verifyResetToken,
+  verifyVerificationToken,
+} from "../accountTokens";
+import { sendPasswordResetEmail, sendVerificationEmail } from "../mail";
+import LoginAttempt, { LoginFailureReason } from "../models/loginAttempt.model";
+import { loginGuard } from "../loginThrottle";
 import logger from "../logger";
 
+// compared against when the user does not exist, the password of no account matches it
+const DUMMY_PASSWORD_HASH = bcrypt.hashSync(
+  randomBytes(16).toString("hex"),
+  10
+);
+
+/**
+ * Saves an audit record of a failed login. Failing to save it does not fail the login request.
+ */
+const recordLoginFailure = async (
+  req: Request,
+  email: string,
+  reason: LoginFailureReason,
+  userId?: string
+) => {
+  try {
+    await LoginAttempt.create({
+      email,
+      userId,
+      ip: req.ip,
+      userAgent: req.header("User-Agent"),
+      reason,
+    });
+  } catch (error) {
+    logger.error(error);
+  }
+
+  logger.warn(`Failed login for ${email} from ${req.ip}: ${reason}.`);
+};
+
 /**
  * This function handles user login by validating the user's credentials and returning a JWT token and
  * user information.
@@ -36,34 +83,47 @@ export const validate = async (req: Request, res: Response) => {
  * response body. The response body typically contains data that is sent back to the client, such as a
  * JSON object with a token
  * @returns This function returns a JSON response containing a JWT token and user object if the login
- * is successful. If there is an error, it returns a JSON response with a message indicating that the
- * login failed.
+ * is successful. Wrong emails and wrong passwords get the same 400 response, and too many failed
+ * attempts a 429 response with a `Retry-After` header. If there is an error, it returns a JSON response
+ * with a message indicating that the login failed.
  */
 export const login = async (req: Request, res: Response) => {
   try {
     const { email, password } = req.body;
 
-    // Check if the user exists
-    let user = await User.findOne({ email });
-
-    if (!user) {
-      return res.status(400).json({ message: "User does not exist." });
+    // Slow down guessing passwords, per account and per IP address
+    const ip = req.ip || "unknown";
+    const retryAfter = await loginGuard.getRetryAfter(email, ip);
+    if (retryAfter > 0) {
+      await recordLoginFailure(req, email, "throttled");
+      return res
+        .status(429)
+        .set("Retry-After", String(Math.ceil(retryAfter / 1000)))
+        .json({ message: "Too many failed login attempts. Try again later." });
     }
 
-    // Compare the provided password with the stored hashed password
-    const isPasswordValid = await bcrypt.compare(password, user.password);
-    if (!isPasswordValid) {
+    // Compare the provided password with the stored hashed password, or a dummy one if the user does
+    // not exist, so both take as long and the answer does not reveal which emails have an account
+    let user = await User.findOne({ email });
+    const isPasswordValid = await bcrypt.compare(
+      password,
+      user?.password || DUMMY_PASSWORD_HASH
+    );
+
+    if (!user || !isPasswordValid) {
+      await loginGuard.recordFailure(email, ip);
+      await recordLoginFailure(req, email, "invalid_credentials", user?.id);
       return res.status(400).json({ message: "Invalid email or password." });
     }
 
-    // Create and sign the JWT
-    const token = jwt.sign({ id: user._id }, process.env.JWT_SECRET || "", {
-      expiresIn: "1d",
-    });
+    await loginGuard.recordSuccess(email);
+
+    // Start a session with a short-lived JWT and a refresh token
+    const { token, refreshToken } = await createSession(user.id, req);
 
     user = await User.findById(user._id).select("-password");
 
-    return res.json({ token, user });
+    return res.json({ token, refreshToken, user });
   } catch (error: any) {
     logger.error(error);
     return res.status(500).json({ message: "Login failed." });
@@ -98,18 +158,29 @@ export const register = async (req: Request, res: Response) => {
     const salt = await bcrypt.genSalt(10);
     const hashedPassword = await bcrypt.hash(password, salt);
 
+    // Users listed in ADMIN_EMAILS are made admins
+    const adminEmails = (process.env.ADMIN_EMAILS || "")
+      .split(",")
+      .map((it) => it.trim().toLowerCase());
+    const role = adminEmails.includes(email.toLowerCase()) ? "admin" : "user";
+
     // Create a new user
-    const newUser: IUser = new User({ email, password: hashedPassword });
+    const newUser: IUser = new User({ email, password: hashedPassword, role });
     await newUser.save();
 
-    // Create and sign the JWT
-    const token = jwt.sign({ id: newUser._id }, process.env.JWT_SECRET || "", {
-      expiresIn: "1d",
-    });
+    // The account can be used right away, the email is verified separately
+    try {
+      await sendVerificationEmail(email, signVerificationToken(newUser, email));
+    } catch (error) {
+      logger.error(error);
+    }
+
+    // Start a session with a short-lived JWT and a refresh token
+    const { token, refreshToken } = await createSession(newUser.id, req);
 
     user = await User.findById(newUser._id).select("-password");
 
-    return res.status(201).json({ token, user });
+    return res.status(201).json({ token, refreshToken, user });
   } catch (error) {
     logger.error(error);
     return res.status(500).json({ message: "Registration failed." });
@@ -117,42 +188,47 @@ export const register = async (req: Request, res: Response) => {
 };
 
 /**
- * This function updates the email of a user in a database and returns a success or error message.
+ * This function starts changing the email of a user. The email is only changed once the user verifies
+ * the new address with the token sent to it.
  * @param {Request} req - The `req` parameter is an object that represents the HTTP request made to the
  * server. It contains information about the request, such as the request method, headers, URL, and
  * body. In this case, the `req` object is being used to extract the `email` property from the request
  * @param {Response} res - `res` stands for response and it is an object that represents the HTTP
  * response that an Express app sends when it receives an HTTP request. It contains methods and
  * properties that allow the app to send data back to the client, such as status codes, headers, and
- * the response body. In this specific
- * @returns a JSON response with a message indicating whether the email update was successful or not.
- * If the email was updated successfully, the response will have a status code of 200 and a message of
- * "Email updated successfully." If the email update failed, the response will have a status code of
- * 500 and a message of "Email update failed."
+ * the response body.
+ * @returns a JSON response with a status code of 200 and a message if the verification email was sent,
+ * a status code of 400 if no email was given, a status code of 409 if another user has the email, or a
+ * status code of 500 and a message of "Email update failed." if it could not be sent.
  */
 export const changeEmail = async (req: Request, res: Response) => {
   try {
     const { email } = req.body;
-    console.log("req:", req);
     const user = await User.findById(req.body.decoded.id);
 
     if (!user) {
       return res.status(404).json({ message: "User not found." });
     }
 
-    user.email = email;
-    await user.save();
+    if (await User.exists({ email, _id: { $ne: user._id } })) {
+      return res.status(409).json({ message: "Email is already in use." });
+    }
+
+    await sendVerificationEmail(email, signVerificationToken(user, email));
 
-    return res.status(200).json({ message: "Email updated successfully." });
+    return res
+      .status(200)
+      .json({ message: "Check your new email to confirm the change." });
   } catch (error: any) {
-    console.log(error);
+    logger.error(error);
     return res.status(500).json({ message: "Email update failed." });
   }
 };
 
 /**
  * This function changes the password of a user by verifying their current password and hashing their
- * new password.
+ * new password. Every other session of the user is revoked, so a stolen session ends with the old
+ * password.
  * @param {Request} req - The `req` parameter is an object that represents the HTTP request made to the
  * server. It contains information such as the request method, headers, URL, and request body.
  * @param {Response} res - `res` is the response object that is used to send a response back to the
@@ -187,6 +263,7 @@ export const changePassword = async (req: Request, res: Response) => {
     const hashedPassword = await bcrypt.hash(newPassword, salt);
     user.password = hashedPassword;
     await user.save();
+    await revokeAllSessions(user.id, req.body.decoded.sid);
 
     return res.status(200).json({ message: "Password updated successfully." });
   } catch (error: any) {
@@ -194,3 +271,168 @@ export const changePassword = async (req: Request, res: Response) => {
     return res.status(500).json({ message: "Password update failed." });
   }
 };
+
+/**
+ * This function exchanges a refresh token for a new access token and a new refresh token. The old
+ * refresh token cannot be used again.
+ * @param {Request} req - Request object, which contains the `refreshToken` in its body.
+ * @param {Response} res - `res` is an object representing the HTTP response that will be sent back to
+ * the client.
+ * @returns a response with a status code of 200 and the new `token` and `refreshToken`, a status code
+ * of 401 if the refresh token is not valid, or a status code of 500 if the tokens could not be
+ * refreshed.
+ */
+export const refresh = async (req: Request, res: Response) => {
+  try {
+    const { refreshToken } = req.body;
+
+    return res.status(200).json(await refreshSession(refreshToken));
+  } catch (error: any) {
+    if (error instanceof InvalidRefreshTokenError) {
+      return res.status(401).json({ message: error.message });
+    }
+
+    logger.error(error);
+    return res.status(500).json({ message: "Token refresh failed." });
+  }
+};
+
+/**
+ * This function logs the user out of the current session, revoking its access and refresh tokens.
+ * @param {Request} req - Request object of the authenticated user.
+ * @param {Response} res - `res` is an object representing the HTTP response that will be sent back to
+ * the client.
+ * @returns a response with a status code of 200 and a success message, or a status code of 500 if the
+ * session could not be revoked.
+ */
+export const logout = async (req: Request, res: Response) => {
+  try {
+    await revokeSession(req.body.decoded.sid);
+
+    return res.status(200).json({ message: "Logged out successfully." });
+  } catch (error: any) {
+    logger.error(error);
+    return res.status(500).json({ message: "Logout failed." });
+  }
+};
+
+/**
+ * This function logs the user out of every session on every device, including the current one.
+ * @param {Request} req - Request object of the authenticated user.
+ * @param {Response} res - `res` is an object representing the HTTP response that will be sent back to
+ * the client.
+ * @returns a response with a status code of 200, a success message and the number of sessions that
+ * were revoked, or a status code of 500 if they could not be revoked.
+ */
+export const logoutAll = async (req: Request, res: Response) => {
+  try {
+    const sessions = await revokeAllSessions(req.body.decoded.id);
+
+    return res
+      .status(200)
+      .json({ message: "Logged out of all devices.", sessions });
+  } catch (error: any) {
+    logger.error(error);
+    return res.status(500).json({ message: "Logout failed." });
+  }
+};
+
+/**
+ * This function sends a password reset token to the email of a user. It answers the same whether or
+ * not the email belongs to a user, so it cannot be used to find out who has an account.
+ * @param {Request} req - Request object, which contains the `email` of the user in its body.
+ * @param {Response} res - `res` is an object representing the HTTP response that will be sent back to
+ * the client.
+ * @returns a response with a status code of 200 and a message, a status code of 400 if no email was
+ * given, or a status code of 500 if the email could not be sent.
+ */
+export const forgotPassword = async (req: Request, res: Response) => {
+  try {
+    const { email } = req.body;
+    const user = await User.findOne({ email });
+
+    if (user) {
+      await sendPasswordResetEmail(user.email, signResetToken(user));
+    }
+
+    return res.status(200).json({
+      message: "If the email belongs to an account, a reset link was sent.",
+    });
+  } catch (error: any) {
+    logger.error(error);
+    return res.status(500).json({ message: "Password reset failed." });
+  }
+};
+
+/**
+ * This function sets a new password with a password reset token, and logs the user out of all their
+ * sessions. The token cannot be used again.
+ * @param {Request} req - Request object, which contains the `token` and the new `password` in its body.
+ * @param {Response} res - `res` is an object representing the HTTP response that will be sent back to
+ * the client.
+ * @returns a response with a status code of 200 and a message, a status code of 400 if the token or
+ * password is missing or the token is not valid, or a status code of 500 if the password could not be
+ * reset.
+ */
+export const resetPassword = async (req: Request, res: Response) => {
+  try {
+    const { token, password } = req.body;
+    const user = await verifyResetToken(token);
+
+    const salt = await bcrypt.genSalt(10);
+    user.password = await bcrypt.hash(password, salt);
+    // the reset link went to the email, so the user owns it
+    user.emailVerified = true;
+    await user.save();
+
+    await revokeAllSessions(user.id);
+
+    return res.status(200).json({ message: "Password reset successfully." });
+  } catch (error: any) {
+    if (error instanceof InvalidAccountTokenError) {
+      return res.status(400).json({ message: error.message });
+    }
+
+    logger.error(error);
+    return res.status(500).json({ message: "Password reset failed." });
+  }
+};
+
+/**
+ * This function verifies the email of a user with an email verification token. When the token was
+ * sent to a new address, the email of the user is changed to it.
+ * @param {Request} req - Request object, which contains the `token` in its body.
+ * @param {Response} res - `res` is an object representing the HTTP response that will be sent back to
+ * the client.
+ * @returns a response with a status code of 200, a message and the user, a status code of 400 if the
+ * token is missing or not valid, a status code of 409 if another user took the address in the
+ * meantime, or a status code of 500 if the email could not be verified.
+ */
+export const verifyEmail = async (req: Request, res: Response) => {
+  try {
+    const { token } = req.body;
+    const { id, email } = verifyVerificationToken(token);
+    const user = await User.findById(id).select("-password");
+
+    if (!user) {
+      throw new InvalidAccountTokenError();
+    }
+
+    if (await User.exists({ email, _id: { $ne: user._id } })) {
+      return res.status(409).json({ message: "Email is already in use." });
+    }
+
+    user.email = email;
+    user.emailVerified = true;
+    await user.save();
+
+    return res.status(200).json({ message: "Email verified.", user });
+  } catch (error: any) {
+    if (error instanceof InvalidAccountTokenError) {
+      return res.status(400).json({ message: error.message });
+    }
+
+    logger.error(error);
+    return res.status(500).json({ message: "Email verification failed." });
+  }
+};
@@ -1,11 +1,288 @@
-import { Bot } from "../bot";
+import {
+  BotExitedError,
+  DecoderSettings,
+  PromptCancelledError,
+  PromptTimeoutError,
+} from "../bot";
+import { BotPool } from "../pool";
+import { PromptQueue, QueueFullError } from "../queue";
+import { buildPrompt, ChatTurn } from "../prompt";
+import { Principal, recordUsage, refundPrompt } from "../usage";
+import logger from "../logger";
+import Conversation, { IConversation } from "../models/conversation.model";
+import LLM from "../models/llm.model";
+import User from "../models/user.model";
 import { Request, Response } from "express";
+import { isValidObjectId } from "mongoose";
 
-export const bot = new Bot();
+const poolModels = (process.env.BOT_POOL_MODELS || "gpt4all-lora-quantized")
+  .split(",")
+  .map((model) => model.trim());
+const poolSize = parseInt(process.env.BOT_POOL_SIZE || "1", 10);
+
+// the workers cycle through the configured models
+export const pool = new BotPool(
+  Array.from({ length: poolSize }, (_, i) => poolModels[i % poolModels.length])
+);
+
+export const promptQueue = new PromptQueue({
+  maxLength: parseInt(process.env.BOT_QUEUE_MAX_LENGTH || "50", 10),
+  maxPerUser: parseInt(process.env.BOT_QUEUE_MAX_PER_USER || "3", 10),
+  concurrency: pool.size,
+});
+
+const promptTimeout = parseInt(
+  process.env.BOT_PROMPT_TIMEOUT_MS || "120000",
+  10
+);
+
+/**
+ * Maps the errors of a queued prompt to an HTTP status code and message.
+ */
+export const getPromptError = (
+  error: unknown
+): { status: number; message: string } => {
+  if (error instanceof QueueFullError) {
+    return { status: 429, message: error.message };
+  }
+
+  if (error instanceof PromptCancelledError) {
+    return { status: 499, message: error.message };
+  }
+
+  if (error instanceof PromptTimeoutError) {
+    return { status: 504, message: error.message };
+  }
+
+  // the worker is restarted, so the prompt can be sent again
+  if (error instanceof BotExitedError) {
+    return { status: 503, message: error.message };
+  }
+
+  console.error(error);
+  return { status: 500, message: "Error prompting bot." };
+};
+
+/**
+ * Gives back a prompt that was counted against the rate limit and daily quotas but refused before it
+ * was queued. Failing to give it back only logs the error, the prompt is refused either way.
+ */
+export const refundRefusedPrompt = async ({ id, apiKeyId }: Principal) => {
+  try {
+    await refundPrompt({ id, apiKeyId });
+  } catch (error) {
+    logger.error(`Failed to refund a refused prompt of user ${id}: ${error}`);
+  }
+};
+
+export interface PromptOptions {
+  /** Only use a worker running this model. */
+  model?: string;
+  /** Receives each new piece of the answer while it is generated. */
+  onToken?: (token: string) => void;
+  /** Appends the prompt and its answer to this conversation. */
+  conversationId?: string;
+  /** The earlier messages the model sees when no conversation is given, oldest first. */
+  history?: ChatTurn[];
+  /** Replaces the system prompt of the model. */
+  systemPrompt?: string;
+  /** Overrides the decoder settings of the model. */
+  decoder?: DecoderSettings;
+}
+
+/**
+ * Finds the conversation of a user that a prompt belongs to.
+ * @returns The conversation, `undefined` if no conversation id was given, or `null` if the user has no
+ * conversation with this id.
+ */
+export const findConversation = async (
+  userId: string,
+  conversationId?: string
+): Promise<IConversation | null | undefined> => {
+  if (!conversationId) {
+    return undefined;
+  }
+
+  if (!isValidObjectId(conversationId)) {
+    return null;
+  }
+
+  return Conversation.findOne({ _id: conversationId, userId });
+};
+
+/**
+ * Applies the preferences of a user to a prompt. The prompt is answered by the requested model, else
+ * by the model of its conversation, else by the preferred model of the user, skipping models that no
+ * worker runs. The decoder settings of the prompt override the ones of the user.
+ * @param {string} userId - The user sending the prompt.
+ * @param conversation - The conversation of the prompt, if any.
+ * @param {string} [model] - The model requested for this prompt.
+ * @param [decoder] - The validated decoder settings requested for this prompt.
+ */
+export const resolvePromptOptions = async (
+  userId: string,
+  conversation?: IConversation,
+  model?: string,
+  decoder?: DecoderSettings
+): Promise<PromptOptions> => {
+  const user = await User.findById(userId).select("preferences");
+  const preferences = user?.preferences;
+  const running = (name?: string) =>
+    name && pool.models.includes(name) ? name : undefined;
+
+  return {
+    model:
+      model ||
+      running(conversation?.model) ||
+      running(preferences?.defaultModel),
+    conversationId: conversation?.id,
+    systemPrompt: preferences?.systemPrompt,
+    decoder: { ...preferences?.decoder, ...decoder },
+  };
+};
+
+/**
+ * Builds the prompt sent to a model from its template, system prompt and context size, including the
+ * earlier messages of the conversation if there is one, else the given history. The conversation is
+ * read when the prompt runs, so it includes the answers of prompts queued before it.
+ */
+const assemblePrompt = async (
+  model: string,
+  prompt: string,
+  conversationId?: string,
+  systemPrompt?: string,
+  history: ChatTurn[] = []
+): Promise<string> => {
+  const [llm, conversation] = await Promise.all([
+    LLM.findOne({ name: model }),
+    conversationId ? Conversation.findById(conversationId) : null,
+  ]);
+
+  return buildPrompt({
+    template: llm?.promptTemplate || "raw",
+    systemPrompt: systemPrompt || llm?.systemPrompt,
+    history: conversation?.messages || history,
+    message: prompt,
+    contextTokens: llm?.contextTokens || 2048,
+  });
+};
+
+/**
+ * Queues a prompt for the bot pool. Once the prompt reaches the front of the queue, each new piece
+ * of the answer is reported through `options.onToken` while it is generated. The prompt fails after
+ * `BOT_PROMPT_TIMEOUT_MS` milliseconds and can be cancelled with `promptQueue.cancel`. When a
+ * conversation is given, the model sees its earlier messages, and the prompt and its answer are
+ * appended to it. The answer counts against the daily token quota of the user. It is returned even
+ * if it cannot be saved, since it was already generated.
+ * @returns The queue request id and position, and a promise resolving with the full answer.
+ * @throws {QueueFullError} If the prompt cannot be queued.
+ */
+export const enqueuePrompt = (
+  userId: string,
+  prompt: string,
+  options: PromptOptions = {}
+) =>
+  promptQueue.enqueue(userId, async (signal) => {
+    const { model, onToken, conversationId, systemPrompt, history, decoder } =
+      options;
+    let answeredBy = model;
+    const response = await pool.prompt(
+      (workerModel) => {
+        answeredBy = workerModel;
+        return assemblePrompt(
+          workerModel,
+          prompt,
+          conversationId,
+          systemPrompt,
+          history
+        );
+      },
+      {
+        model,
+        signal,
+        timeout: promptTimeout || undefined,
+        onData: onToken,
+        decoder,
+      }
+    );
+
+    const saved = await Promise.allSettled([
+      conversationId &&
+        Conversation.updateOne(
+          { _id: conversationId },
+          {
+            $push: {
+              messages: {
+                $each: [
+                  { role: "user", content: prompt },
+                  { role: "assistant", content: response },
+                ],
+              },
+            },
+            model: answeredBy,
+          }
+        ),
+      recordUsage(userId, response.length),
+    ]);
+    for (const result of saved) {
+      if (result.status === "rejected") {
+        logger.error(
+          `Failed to save the answer to a prompt of user ${userId}: ${result.reason}`
+        );
+      }
+    }
+
+    return response;
+  });
+
+/**
+ * Reads the body of a prompt request, checked by the prompt schema, and applies the preferences of
+ * the user. Responds with an error and returns null if the model is not running or the conversation
+ * does not belong to the user.
+ */
+const readPromptRequest = async (
+  req: Request,
+  res: Response
+): Promise<{ prompt: string; options: PromptOptions } | null> => {
+  const { prompt, model, conversationId, decoder } = req.body;
+
+  if (model && !pool.models.includes(model)) {
+    await refundRefusedPrompt(req.body.decoded);
+    res.status(400).json({ message: `Model ${model} is not running.` });
+    return null;
+  }
+
+  try {
+    const conversation = await findConversation(
+      req.body.decoded.id,
+      conversationId
+    );
+
+    if (conversation === null) {
+      await refundRefusedPrompt(req.body.decoded);
+      res.status(404).json({ message: "Conversation not found." });
+      return null;
+    }
+
+    const options = await resolvePromptOptions(
+      req.body.decoded.id,
+      conversation,
+      model,
+      decoder
+    );
+
+    return { prompt, options };
+  } catch (error) {
+    console.error(error);
+    await refundRefusedPrompt(req.body.decoded);
+    res.status(500).json({ message: "Error preparing prompt." });
+    return null;
+  }
+};
 
 export const getBot = async (req: Request, res: Response) => {
   try {
-    return res.status(200).json(bot);
+    return res.status(200).json(pool.getStatus());
   } catch (error) {
     console.error(error);
     res.status(500).json({ message: "Internal Server Error" });
@@ -14,8 +291,8 @@ export const getBot = async (req: Request, res: Response) => {
 
 export const openBot = async (req: Request, res: Response) => {
   try {
-    await bot.init();
-    await bot.open();
+    await pool.init();
+    await pool.open();
     res.status(200).json({ message: "Bot initialized and opened." });
   } catch (error) {
     console.error(error);
@@ -25,7 +302,7 @@ export const openBot = async (req: Request, res: Response) => {
 
 export const closeBot = async (req: Request, res: Response) => {
   try {
-    bot.close();
+    pool.close();
     res.status(200).json({ message: "Bot closed successfully." });
   } catch (error) {
     console.error(error);
@@ -33,19 +310,106 @@ export const closeBot = async (req: Request, res: Response) => {
   }
 };
 
+export const getQueue = async (req: Request, res: Response) => {
+  try {
+    res.status(200).json({
+      length: promptQueue.length,
+      requests: promptQueue.getRequests(req.body.decoded.id),
+    });
+  } catch (error) {
+    console.error(error);
+    res.status(500).json({ message: "Error fetching queue." });
+  }
+};
+
 export const promptBot = async (req: Request, res: Response) => {
-  const { prompt } = req.body;
+  const request = await readPromptRequest(req, res);
+  if (!request) {
+    return;
+  }
 
-  if (!prompt) {
-    res.status(400).json({ message: "Prompt is required." });
+  try {
+    const { id, result } = enqueuePrompt(
+      req.body.decoded.id,
+      request.prompt,
+      request.options
+    );
+    // stop generating once the client goes away
+    res.on("close", () => promptQueue.cancel(id));
+    res.status(200).json({ id, message: await result });
+  } catch (error) {
+    if (error instanceof QueueFullError) {
+      await refundRefusedPrompt(req.body.decoded);
+    }
+    const { status, message } = getPromptError(error);
+    res.status(status).json({ message });
+  }
+};
+
+export const promptBotStream = async (req: Request, res: Response) => {
+  const request = await readPromptRequest(req, res);
+  if (!request) {
     return;
   }
 
+  let closed = false;
+  const send = (event: string, data: Record<string, unknown>) => {
+    if (!closed) {
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    }
+  };
+
+  let queued: ReturnType<typeof enqueuePrompt>;
+  try {
+    queued = enqueuePrompt(req.body.decoded.id, request.prompt, {
+      ...request.options,
+      onToken: (token) => send("token", { token }),
+    });
+  } catch (error) {
+    await refundRefusedPrompt(req.body.decoded);
+    const { status, message } = getPromptError(error);
+    res.status(status).json({ message });
+    return;
+  }
+
+  // stop generating once the client goes away
+  res.on("close", () => {
+    closed = true;
+    promptQueue.cancel(queued.id);
+  });
+
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+  });
+  send("queued", { id: queued.id, position: queued.position });
+
+  try {
+    send("done", { id: queued.id, message: await queued.result });
+  } catch (error) {
+    const { message } = getPromptError(error);
+    send("error", { id: queued.id, message });
+  }
+
+  res.end();
+};
+
+export const cancelPrompt = async (req: Request, res: Response) => {
   try {
-    const response = await bot.prompt(prompt);
-    res.status(200).json({ message: response.substring(13) });
+    const { requestId } = req.params;
+    const owned = promptQueue
+      .getRequests(req.body.decoded.id)
+      .some((request) => request.id === requestId);
+
+    if (!owned || !promptQueue.cancel(requestId)) {
+      res.status(404).json({ message: "Prompt request not found." });
+      return;
+    }
+
+    res.status(200).json({ message: "Prompt cancelled." });
   } catch (error) {
     console.error(error);
-    res.status(500).json({ message: "Error prompting bot." });
+    res.status(500).json({ message: "Error cancelling prompt." });
   }
 };
@@ -0,0 +1,138 @@
+import { Request, Response } from "express";
+import Conversation, { IConversation } from "../models/conversation.model";
+import logger from "../logger";
+
+/**
+ * This function creates a new, empty conversation for the logged in user.
+ * @param {Request} req - Request object, which contains the optional `title` and `model` of the
+ * conversation in its body.
+ * @param {Response} res - `res` is an object representing the HTTP response that will be sent back to
+ * the client.
+ * @returns a response with a status code of 201 and the saved conversation, or a status code of 500
+ * and an error message if the conversation could not be created.
+ */
+export const createConversation = async (req: Request, res: Response) => {
+  try {
+    const { title, model } = req.body;
+    const conversation: IConversation = new Conversation({
+      title,
+      model,
+      userId: req.body.decoded.id,
+    });
+
+    await conversation.save();
+
+    return res.status(201).json(conversation);
+  } catch (error: any) {
+    logger.error(error);
+    return res.status(500).json({ message: "Error creating conversation." });
+  }
+};
+
+/**
+ * This function lists the conversations of the logged in user, most recently updated first. The
+ * messages are left out, they are returned by `getConversationById`.
+ * @param {Request} req - Request object of the authenticated user.
+ * @param {Response} res - `res` is an object representing the HTTP response that will be sent back to
+ * the client.
+ * @returns a response with a status code of 200 and the conversations, or a status code of 500 and an
+ * error message if they could not be fetched.
+ */
+export const getConversations = async (req: Request, res: Response) => {
+  try {
+    const conversations = await Conversation.find({
+      userId: req.body.decoded.id,
+    })
+      .select("-messages")
+      .sort({ updatedAt: -1 });
+
+    return res.status(200).json(conversations);
+  } catch (error: any) {
+    logger.error(error);
+    return res.status(500).json({ message: "Error fetching conversations." });
+  }
+};
+
+/**
+ * This function returns a conversation of the logged in user with all of its messages.
+ * @param {Request} req - Request object, which contains the id of the conversation in its
+ * parameters.
+ * @param {Response} res - `res` is an object representing the HTTP response that will be sent back to
+ * the client.
+ * @returns a response with a status code of 200 and the conversation, a status code of 404 if the
+ * user has no conversation with this id, or a status code of 500 if it could not be fetched.
+ */
+export const getConversationById = async (req: Request, res: Response) => {
+  try {
+    const conversation = await Conversation.findOne({
+      _id: req.params.id,
+      userId: req.body.decoded.id,
+    });
+
+    if (!conversation) {
+      return res.status(404).json({ message: "Conversation not found." });
+    }
+
+    return res.status(200).json(conversation);
+  } catch (error: any) {
+    logger.error(error);
+    return res.status(500).json({ message: "Error fetching conversation." });
+  }
+};
+
+/**
+ * This function renames a conversation of the logged in user or changes the model answering it.
+ * Messages are only added by prompting the bot.
+ * @param {Request} req - Request object, which contains the id of the conversation in its
+ * parameters and the new `title` and/or `model` in its body.
+ * @param {Response} res - `res` is an object representing the HTTP response that will be sent back to
+ * the client.
+ * @returns a response with a status code of 200 and the updated conversation, a status code of 404 if
+ * the user has no conversation with this id, or a status code of 500 if it could not be updated.
+ */
+export const updateConversation = async (req: Request, res: Response) => {
+  try {
+    const { title, model } = req.body;
+    const conversation = await Conversation.findOneAndUpdate(
+      { _id: req.params.id, userId: req.body.decoded.id },
+      { title, model },
+      { new: true }
+    );
+
+    if (!conversation) {
+      return res.status(404).json({ message: "Conversation not found." });
+    }
+
+    return res.status(200).json(conversation);
+  } catch (error: any) {
+    logger.error(error);
+    return res.status(500).json({ message: "Error updating conversation." });
+  }
+};
+
+/**
+ * This function deletes a conversation of the logged in user.
+ * @param {Request} req - Request object, which contains the id of the conversation in its
+ * parameters.
+ * @param {Response} res - `res` is an object representing the HTTP response that will be sent back to
+ * the client.
+ * @returns a response with a status code of 200 and a success message, a status code of 404 if the
+ * user has no conversation with this id, or a status code of 500 if it could not be deleted.
+ */
+export const deleteConversation = async (req: Request, res: Response) => {
+  try {
+    const conversation = await Conversation.findOneAndDelete({
+      _id: req.params.id,
+      userId: req.body.decoded.id,
+    });
+
+    if (!conversation) {
+      return res.status(404).json({ message: "Conversation not found." });
+    }
+
+    return res.status(200).json({ message: "Conversation deleted." });
+  } catch (error: any) {
+    logger.error(error);
+    return res.status(500).json({ message: "Error deleting conversation." });
+  }
+};
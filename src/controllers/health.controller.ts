@@ -0,0 +1,69 @@
+import { Request, Response } from "express";
+import mongoose from "mongoose";
+import { pool } from "./bot.controller";
+import {
+  getBotUnavailability,
+  getServerUnavailability,
+  Unavailability,
+} from "../readiness";
+import logger from "../logger";
+
+/**
+ * Responds with the state of the server, the database and the bot pool, with a status code of 503 if
+ * there is a reason the server is unavailable.
+ */
+const sendHealth = (res: Response, unavailability?: Unavailability) => {
+  const { state, size, workers } = pool.getStatus();
+  const database =
+    mongoose.connection.readyState === 1 ? "connected" : "disconnected";
+
+  return res.status(unavailability ? 503 : 200).json({
+    status: unavailability ? "unavailable" : "ok",
+    message: unavailability?.message,
+    ready: !getServerUnavailability() && !getBotUnavailability(),
+    uptime: Math.floor(process.uptime()),
+    database,
+    bot: {
+      state,
+      size,
+      open: workers.filter((worker) => worker.open).length,
+    },
+  });
+};
+
+/**
+ * This function reports whether the server is running, for monitoring and liveness checks. It needs no
+ * authentication, so it only tells the state of the server, the database and the bot pool. The bot
+ * does not need to be ready, since it can be closed on purpose, like with `BOT_STARTUP=manual`.
+ * @param {Request} req - Request object, which is not used.
+ * @param {Response} res - `res` is an object representing the HTTP response that will be sent back to
+ * the client.
+ * @returns a response with a status code of 200 if the database is connected, or a status code of
+ * 503 with the reason otherwise, like while the server starts or shuts down.
+ */
+export const getHealth = async (req: Request, res: Response) => {
+  try {
+    return sendHealth(res, getServerUnavailability());
+  } catch (error) {
+    logger.error(error);
+    return res.status(500).json({ message: "Error checking health." });
+  }
+};
+
+/**
+ * This function reports whether the server can answer prompts, for load balancers and readiness
+ * checks.
+ * @param {Request} req - Request object, which is not used.
+ * @param {Response} res - `res` is an object representing the HTTP response that will be sent back to
+ * the client.
+ * @returns a response with a status code of 200 if the database is connected and a worker can take
+ * prompts, or a status code of 503 with the reason otherwise.
+ */
+export const getReadiness = async (req: Request, res: Response) => {
+  try {
+    return sendHealth(res, getServerUnavailability() || getBotUnavailability());
+  } catch (error) {
+    logger.error(error);
+    return res.status(500).json({ message: "Error checking readiness." });
+  }
+};
@@ -1,5 +1,10 @@
 import { Request, Response } from "express";
-import LLM, { ILLM } from "../models/llm.model";
+import fs from "fs";
+import LLM, { ILLM, getDownloadSource } from "../models/llm.model";
+import { getModelPath } from "../backends/gpt4all.backend";
+import { downloads } from "../downloads";
+import { updateModelSchema } from "../../shared/schemas/llm.schema";
+import { pool } from "./bot.controller";
 import logger from "../logger";
 
 /**
@@ -69,7 +74,30 @@ export const getModelById = async (req: Request, res: Response) => {
  */
 export const createModel = async (req: Request, res: Response) => {
   try {
-    const newLLM: ILLM = new LLM({ name: req.body.name });
+    // a gpt4all model can only run once its file is downloaded
+    if (
+      req.body.backend?.type !== "http" &&
+      !req.body.sourceUrl &&
+      !fs.existsSync(getModelPath(req.body.name))
+    ) {
+      return res
+        .status(400)
+        .json({ message: "A gpt4all model needs a source URL." });
+    }
+
+    const newLLM: ILLM = new LLM({
+      name: req.body.name,
+      backend: req.body.backend,
+      promptTemplate: req.body.promptTemplate,
+      systemPrompt: req.body.systemPrompt,
+      contextTokens: req.body.contextTokens,
+      decoder: req.body.decoder,
+      sourceUrl: req.body.sourceUrl,
+      size: req.body.size,
+      sha256: req.body.sha256,
+      license: req.body.license,
+      quantization: req.body.quantization,
+    });
     await newLLM.save();
 
     return res.status(201).json(newLLM);
@@ -88,15 +116,31 @@ export const createModel = async (req: Request, res: Response) => {
  * the response back to the client, such as `status()` and `json()`. In this specific function, `res`
  * is used
  * @returns If the LLM is successfully updated, the updated LLM object is returned with a status code
- * of 200. If the LLM is not found, a message indicating that the LLM was not found is returned with a
+ * of 200. Only the fields of the update schema are changed. If the LLM is not found, a message indicating that the LLM was not found is returned with a
  * status code of 404. If there is an error during the update process, a message indicating that the
  * update failed is returned with a status code of 500.
  */
 export const updateModel = async (req: Request, res: Response) => {
   try {
-    const llm = await LLM.findByIdAndUpdate(req.params.id, req.body, {
-      new: true,
-    });
+    // only set the fields in the body, nested ones one by one, so the backend API key is kept
+    const $set: Record<string, unknown> = {};
+    for (const field of Object.keys(updateModelSchema.fields)) {
+      const value = req.body[field];
+
+      if (field === "backend" || field === "decoder") {
+        for (const [key, nested] of Object.entries(value || {})) {
+          $set[`${field}.${key}`] = nested;
+        }
+      } else if (value !== undefined) {
+        $set[field] = value;
+      }
+    }
+
+    const llm = await LLM.findByIdAndUpdate(
+      req.params.id,
+      { $set },
+      { new: true, runValidators: true }
+    );
     if (!llm) {
       return res.status(404).json({ message: "LLM not found." });
     }
@@ -134,3 +178,109 @@ export const deleteModel = async (req: Request, res: Response) => {
     return res.status(500).json({ message: "Failed to delete LLM." });
   }
 };
+
+/**
+ * Returns the download progress of a model, falling back to the file on disk for models that were
+ * not downloaded since the server started.
+ */
+const getDownloadProgress = (llm: ILLM) => {
+  const progress = downloads.getProgress(llm.name);
+  if (progress) {
+    return progress;
+  }
+
+  const modelPath = getModelPath(llm.name);
+  if (fs.existsSync(modelPath)) {
+    const { size } = fs.statSync(modelPath);
+    return { status: "completed", received: size, total: size };
+  }
+
+  return { status: "not_started", received: 0, total: llm.size };
+};
+
+/**
+ * This function starts downloading the file of an LLM model from its catalog source, unless it is
+ * already downloaded or downloading. The download runs in the background, its progress is returned
+ * by `getModelDownload`.
+ * @param {Request} req - Request object, which contains the id of the LLM in its parameters.
+ * @param {Response} res - `res` is an object representing the HTTP response that will be sent back to
+ * the client.
+ * @returns a response with a status code of 202 and the progress of the download, a status code of
+ * 200 if the file is already downloaded, a status code of 400 if the model has no file to download,
+ * a status code of 404 if the LLM does not exist, or a status code of 500 if it could not be started.
+ */
+export const startModelDownload = async (req: Request, res: Response) => {
+  try {
+    const llm = await LLM.findById(req.params.id);
+    if (!llm) {
+      return res.status(404).json({ message: "LLM not found." });
+    }
+
+    const source = getDownloadSource(llm);
+    if (llm.backend?.type === "http" || !source) {
+      return res.status(400).json({ message: "LLM has no file to download." });
+    }
+
+    const progress = getDownloadProgress(llm);
+    if (progress.status === "completed") {
+      return res.status(200).json(progress);
+    }
+
+    downloads
+      .download(llm.name, getModelPath(llm.name), source)
+      .catch((error) => logger.error(error));
+
+    return res.status(202).json(getDownloadProgress(llm));
+  } catch (error: any) {
+    logger.error(error);
+    return res.status(500).json({ message: "Failed to download LLM." });
+  }
+};
+
+/**
+ * This function returns the download progress of the file of an LLM model.
+ * @param {Request} req - Request object, which contains the id of the LLM in its parameters.
+ * @param {Response} res - `res` is an object representing the HTTP response that will be sent back to
+ * the client.
+ * @returns a response with a status code of 200 and the status, received bytes and total bytes of the
+ * download, a status code of 404 if the LLM does not exist, or a status code of 500 if it could not be
+ * fetched.
+ */
+export const getModelDownload = async (req: Request, res: Response) => {
+  try {
+    const llm = await LLM.findById(req.params.id);
+    if (!llm) {
+      return res.status(404).json({ message: "LLM not found." });
+    }
+
+    return res.status(200).json(getDownloadProgress(llm));
+  } catch (error: any) {
+    logger.error(error);
+    return res.status(500).json({ message: "Failed to fetch LLM download." });
+  }
+};
+
+/**
+ * This function loads an LLM model of the catalog into the bot, so it answers the following prompts.
+ * The file of the model is downloaded first if needed, which can take a while.
+ * @param {Request} req - Request object, which contains the id of the LLM in its parameters.
+ * @param {Response} res - `res` is an object representing the HTTP response that will be sent back to
+ * the client.
+ * @returns a response with a status code of 200 and the status of the bot, a status code of 404 if
+ * the LLM does not exist, or a status code of 500 if the model could not be loaded.
+ */
+export const activateModel = async (req: Request, res: Response) => {
+  try {
+    const llm = await LLM.findById(req.params.id).select("+backend.apiKey");
+    if (!llm) {
+      return res.status(404).json({ message: "LLM not found." });
+    }
+
+    await pool.activate(llm);
+
+    return res.status(200).json(pool.getStatus());
+  } catch (error: any) {
+    logger.error(error);
+    return res.status(500).json({ message: "Failed to activate LLM." });
+  }
+};
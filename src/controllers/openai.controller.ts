@@ -0,0 +1,265 @@
+import { Request, Response } from "express";
+import {
+  enqueuePrompt,
+  getPromptError,
+  pool,
+  PromptOptions,
+  promptQueue,
+  refundRefusedPrompt,
+  resolvePromptOptions,
+} from "./bot.controller";
+import { toOpenAIError } from "../middlewares/openai.middleware";
+import { ChatTurn, estimateTokens } from "../prompt";
+import LLM, { ILLM } from "../models/llm.model";
+import logger from "../logger";
+
+const OWNER = "aimodelmate";
+
+interface ChatMessage {
+  role: "system" | "developer" | "user" | "assistant";
+  content: string;
+}
+
+const toModel = (llm: ILLM) => ({
+  id: llm.name,
+  object: "model",
+  created: Math.floor(llm._id.getTimestamp().getTime() / 1000),
+  owned_by: OWNER,
+});
+
+/**
+ * Splits the messages of an OpenAI chat into the system prompt, the earlier turns and the new message
+ * of the user, which the schema requires to come last.
+ */
+const readMessages = (messages: ChatMessage[]) => {
+  const system = messages
+    .filter(({ role }) => role === "system" || role === "developer")
+    .map(({ content }) => content)
+    .join("\n\n");
+  const turns = messages.filter(
+    (message): message is ChatTurn =>
+      message.role === "user" || message.role === "assistant"
+  );
+
+  return {
+    systemPrompt: system || undefined,
+    history: turns.slice(0, -1),
+    prompt: turns[turns.length - 1].content,
+  };
+};
+
+/**
+ * This function lists the models of the catalog in the format of the OpenAI API.
+ * @param {Request} req - Request object of the authenticated user.
+ * @param {Response} res - `res` is an object representing the HTTP response that will be sent back to
+ * the client.
+ * @returns a response with a status code of 200 and the list of models, or a status code of 500 if
+ * they could not be fetched.
+ */
+export const listModels = async (req: Request, res: Response) => {
+  try {
+    const llms = await LLM.find().select("name").sort({ name: 1 });
+    return res.status(200).json({ object: "list", data: llms.map(toModel) });
+  } catch (error: any) {
+    logger.error(error);
+    return res.status(500).json({ message: "Error fetching models." });
+  }
+};
+
+/**
+ * This function returns a model of the catalog, by name, in the format of the OpenAI API.
+ * @param {Request} req - Request object, which contains the `model` name in its parameters.
+ * @param {Response} res - `res` is an object representing the HTTP response that will be sent back to
+ * the client.
+ * @returns a response with a status code of 200 and the model, a status code of 404 if there is no
+ * model with this name, or a status code of 500 if it could not be fetched.
+ */
+export const retrieveModel = async (req: Request, res: Response) => {
+  try {
+    const { model } = req.params;
+    const llm = await LLM.findOne({ name: model }).select("name");
+
+    if (!llm) {
+      return res
+        .status(404)
+        .json(
+          toOpenAIError(
+            404,
+            `The model ${model} does not exist.`,
+            "model_not_found",
+            "model"
+          )
+        );
+    }
+
+    return res.status(200).json(toModel(llm));
+  } catch (error: any) {
+    logger.error(error);
+    return res.status(500).json({ message: "Error fetching model." });
+  }
+};
+
+/**
+ * This function answers a chat in the format of the OpenAI Chat Completions API. The system messages
+ * replace the system prompt of the user, the earlier messages are sent to the model as the history
+ * of the chat, and the sampling parameters override the generation settings of the user. With
+ * `stream` set, the answer is sent as `chat.completion.chunk` server-sent events while it is
+ * generated, ending with `data: [DONE]`. Token counts are estimated at four characters per token.
+ * @param {Request} req - Request object, which contains the `model`, `messages` and sampling
+ * parameters in its body.
+ * @param {Response} res - `res` is an object representing the HTTP response that will be sent back to
+ * the client.
+ * @returns a response with a status code of 200 and the completion or its chunks, a status code of 404
+ * if the model is not running, or the status code of the error if the prompt failed.
+ */
+export const createChatCompletion = async (req: Request, res: Response) => {
+  const {
+    model,
+    messages,
+    stream,
+    stream_options,
+    temperature,
+    top_p,
+    max_tokens,
+    max_completion_tokens,
+  } = req.body;
+  const userId = req.body.decoded.id;
+
+  if (!pool.models.includes(model)) {
+    await refundRefusedPrompt(req.body.decoded);
+    return res
+      .status(404)
+      .json(
+        toOpenAIError(
+          404,
+          `The model ${model} does not exist or is not running.`,
+          "model_not_found",
+          "model"
+        )
+      );
+  }
+
+  const { systemPrompt, history, prompt } = readMessages(messages);
+
+  // unset sampling parameters must not override the settings of the user
+  const decoder = Object.fromEntries(
+    Object.entries({
+      temp: temperature,
+      top_p,
+      n_predict: max_completion_tokens ?? max_tokens,
+    }).filter(([, value]) => value !== undefined)
+  );
+
+  let options: PromptOptions;
+  try {
+    options = await resolvePromptOptions(userId, undefined, model, decoder);
+  } catch (error: any) {
+    logger.error(error);
+    await refundRefusedPrompt(req.body.decoded);
+    return res.status(500).json({ message: "Error preparing prompt." });
+  }
+
+  const created = Math.floor(Date.now() / 1000);
+  const promptTokens = estimateTokens(
+    messages.map(({ content }: ChatMessage) => content).join("\n")
+  );
+  const getUsage = (answer: string) => {
+    const completionTokens = estimateTokens(answer);
+    return {
+      prompt_tokens: promptTokens,
+      completion_tokens: completionTokens,
+      total_tokens: promptTokens + completionTokens,
+    };
+  };
+
+  let closed = false;
+  const sendChunk = (data: object) => {
+    if (!closed) {
+      res.write(`data: ${JSON.stringify(data)}\n\n`);
+    }
+  };
+  const chunk = (
+    id: string,
+    delta: Record<string, string>,
+    finishReason: string | null = null
+  ) => ({
+    id: `chatcmpl-${id}`,
+    object: "chat.completion.chunk",
+    created,
+    model,
+    choices: [{ index: 0, delta, finish_reason: finishReason }],
+  });
+
+  let queued: ReturnType<typeof enqueuePrompt>;
+  try {
+    queued = enqueuePrompt(userId, prompt, {
+      ...options,
+      systemPrompt: systemPrompt || options.systemPrompt,
+      history,
+      onToken: stream
+        ? (token) => sendChunk(chunk(queued.id, { content: token }))
+        : undefined,
+    });
+  } catch (error) {
+    await refundRefusedPrompt(req.body.decoded);
+    const { status, message } = getPromptError(error);
+    return res.status(status).json({ message });
+  }
+
+  // stop generating once the client goes away
+  res.on("close", () => {
+    closed = true;
+    promptQueue.cancel(queued.id);
+  });
+
+  if (!stream) {
+    try {
+      const answer = await queued.result;
+      return res.status(200).json({
+        id: `chatcmpl-${queued.id}`,
+        object: "chat.completion",
+        created,
+        model,
+        choices: [
+          {
+            index: 0,
+            message: { role: "assistant", content: answer },
+            finish_reason: "stop",
+          },
+        ],
+        usage: getUsage(answer),
+      });
+    } catch (error) {
+      const { status, message } = getPromptError(error);
+      return res.status(status).json({ message });
+    }
+  }
+
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+  });
+  sendChunk(chunk(queued.id, { role: "assistant", content: "" }));
+
+  try {
+    const answer = await queued.result;
+    sendChunk(chunk(queued.id, {}, "stop"));
+
+    if (stream_options?.include_usage) {
+      sendChunk({
+        ...chunk(queued.id, {}),
+        choices: [],
+        usage: getUsage(answer),
+      });
+    }
+  } catch (error) {
+    const { status, message } = getPromptError(error);
+    sendChunk(toOpenAIError(status, message));
+  }
+
+  if (!closed) {
+    res.write("data: [DONE]\n\n");
+  }
+  res.end();
+};
@@ -0,0 +1,79 @@
+import { Request, Response } from "express";
+import User from "../models/user.model";
+import LLM from "../models/llm.model";
+import logger from "../logger";
+
+/**
+ * This function returns the preferences of the logged in user.
+ * @param {Request} req - Request object of the authenticated user.
+ * @param {Response} res - `res` is an object representing the HTTP response that will be sent back to
+ * the client.
+ * @returns a response with a status code of 200 and the preferences, a status code of 404 if the user
+ * does not exist anymore, or a status code of 500 if they could not be fetched.
+ */
+export const getPreferences = async (req: Request, res: Response) => {
+  try {
+    const user = await User.findById(req.body.decoded.id).select("preferences");
+
+    if (!user) {
+      return res.status(404).json({ message: "User not found." });
+    }
+
+    return res.status(200).json(user.preferences || {});
+  } catch (error: any) {
+    logger.error(error);
+    return res.status(500).json({ message: "Error fetching preferences." });
+  }
+};
+
+/**
+ * This function updates the preferences of the logged in user. Only the preferences present in the
+ * body are changed, and `null` clears a preference.
+ * @param {Request} req - Request object, which contains the `defaultModel`, `decoder` and/or
+ * `systemPrompt` preferences in its body.
+ * @param {Response} res - `res` is an object representing the HTTP response that will be sent back to
+ * the client.
+ * @returns a response with a status code of 200 and the updated preferences, a status code of 400 if
+ * the default model is not in the catalog or the decoder settings are invalid, a status code of 404 if the user does not exist anymore,
+ * or a status code of 500 if they could not be updated.
+ */
+export const updatePreferences = async (req: Request, res: Response) => {
+  try {
+    const { defaultModel, decoder, systemPrompt } = req.body;
+
+    if (defaultModel && !(await LLM.exists({ name: defaultModel }))) {
+      return res
+        .status(400)
+        .json({ message: `Model ${defaultModel} is not in the catalog.` });
+    }
+
+    const $set: Record<string, unknown> = {};
+    const $unset: Record<string, 1> = {};
+    for (const [key, value] of Object.entries({
+      defaultModel,
+      decoder,
+      systemPrompt,
+    })) {
+      if (value === null) {
+        $unset[`preferences.${key}`] = 1;
+      } else if (value !== undefined) {
+        $set[`preferences.${key}`] = value;
+      }
+    }
+
+    const user = await User.findByIdAndUpdate(
+      req.body.decoded.id,
+      { $set, $unset },
+      { new: true, runValidators: true }
+    ).select("preferences");
+
+    if (!user) {
+      return res.status(404).json({ message: "User not found." });
+    }
+
+    return res.status(200).json(user.preferences || {});
+  } catch (error: any) {
+    logger.error(error);
+    return res.status(500).json({ message: "Error updating preferences." });
+  }
+};
@@ -1,7 +1,18 @@
 import { Request, Response } from "express";
 import ResponseModel, { IResponse } from "../models/response.model";
+import { getUserRole } from "../middlewares/auth.middleware";
+import { isValidObjectId } from "mongoose";
 import logger from "../logger";
 
+/**
+ * Returns the filter restricting a query to the responses of the logged in user. Admins can access
+ * the responses of every user.
+ */
+const getOwnerFilter = async (req: Request): Promise<{ userId?: string }> =>
+  (await getUserRole(req.body.decoded.id)) === "admin"
+    ? {}
+    : { userId: req.body.decoded.id };
+
 /**
  * This function creates a new response and saves it to the database, returning the saved response or
  * an error message.
@@ -68,12 +79,22 @@ export const getResponses = async (req: Request, res: Response) => {
  * the client. It contains methods and properties that allow the server to send data back to the
  * client, such as `status()` to set the HTTP status code, `json()` to send a JSON response, and `send
  * @returns This function is returning a JSON response with the data of a response object that matches
- * the ID provided in the request parameters. If there is an error, it will return a 500 status code
- * with a message indicating that there was an error fetching the response by ID.
+ * the ID provided in the request parameters. It returns a 404 status code if the response does not
+ * exist or belongs to another user, unless the user is an admin. If there is an error, it will return
+ * a 500 status code with a message indicating that there was an error fetching the response by ID.
  */
 export const getResponseById = async (req: Request, res: Response) => {
   try {
-    const response = await ResponseModel.findById(req.params.id);
+    const response = isValidObjectId(req.params.id)
+      ? await ResponseModel.findOne({
+          _id: req.params.id,
+          ...(await getOwnerFilter(req)),
+        })
+      : null;
+
+    if (!response) {
+      return res.status(404).json({ message: "Response not found." });
+    }
 
     return res.status(200).json(response);
   } catch (error: any) {
@@ -90,11 +111,21 @@ export const getResponseById = async (req: Request, res: Response) => {
  * @param {Response} res - `res` is an object representing the HTTP response that will be sent back to
  * the client. It contains methods for setting the response status, headers, and body. In this case,
  * the `res` object is used to send a JSON response with an array of response objects fetched from the
- * database.
+ * database. Users can only list their own responses, admins can list the responses of any user.
  */
 export const getResponsesByUserId = async (req: Request, res: Response) => {
   try {
-    const userId = req.body.decoded.id;
+    const { userId } = req.params;
+    const { userId: ownerId } = await getOwnerFilter(req);
+
+    if (ownerId && ownerId !== userId) {
+      return res.status(403).json({ message: "Access denied." });
+    }
+
+    if (!isValidObjectId(userId)) {
+      return res.status(200).json([]);
+    }
+
     const responses = await ResponseModel.find({ userId });
     res.status(200).json(responses);
   } catch (error: any) {
@@ -112,16 +143,25 @@ export const getResponsesByUserId = async (req: Request, res: Response) => {
  * the client. It contains methods for setting the response status, headers, and body. In this specific
  * function, `res` is used to send a JSON response with the updated response object or an error message
  * if the update
- * @returns a JSON response with the updated response object if the update was successful, and a JSON
- * response with an error message if there was an error updating the response.
+ * @returns a JSON response with the updated response object if the update was successful, a 404 status
+ * code if the response does not exist or belongs to another user, unless the user is an admin, and a
+ * JSON response with an error message if there was an error updating the response. Only the `input`
+ * and `output` can be changed.
  */
 export const updateResponse = async (req: Request, res: Response) => {
   try {
-    const updatedResponse = await ResponseModel.findByIdAndUpdate(
-      req.params.id,
-      req.body,
-      { new: true }
-    );
+    const { input, output } = req.body;
+    const updatedResponse = isValidObjectId(req.params.id)
+      ? await ResponseModel.findOneAndUpdate(
+          { _id: req.params.id, ...(await getOwnerFilter(req)) },
+          { input, output },
+          { new: true, runValidators: true }
+        )
+      : null;
+
+    if (!updatedResponse) {
+      return res.status(404).json({ message: "Response not found." });
+    }
 
     return res.status(200).json(updatedResponse);
   } catch (error: any) {
@@ -142,12 +182,23 @@ export const updateResponse = async (req: Request, res: Response) => {
  * client, such as `status()` to set the HTTP status code, `json()` to send a JSON response, and `send
  * @returns a JSON response with a message indicating whether the response was successfully deleted or
  * if there was an error. If the response was successfully deleted, the message will be "Response
- * deleted" and the status code will be 200. If there was an error, the message will be "Error updating
- * response" and the status code will be 500.
+ * deleted" and the status code will be 200. If the response does not exist or belongs to another
+ * user, unless the user is an admin, the status code will be 404. If there was an error, the message
+ * will be "Error updating response" and the status code will be 500.
  */
 export const deleteResponse = async (req: Request, res: Response) => {
   try {
-    await ResponseModel.findByIdAndDelete(req.params.id);
+    const deletedResponse = isValidObjectId(req.params.id)
+      ? await ResponseModel.findOneAndDelete({
+          _id: req.params.id,
+          ...(await getOwnerFilter(req)),
+        })
+      : null;
+
+    if (!deletedResponse) {
+      return res.status(404).json({ message: "Response not found." });
+    }
+
     res.status(200).json({ message: "Response deleted" });
   } catch (error: any) {
     logger.log(error);
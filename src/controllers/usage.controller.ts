@@ -0,0 +1,21 @@
+import { Request, Response } from "express";
+import { getUsage } from "../usage";
+import logger from "../logger";
+
+/**
+ * This function returns the usage of the logged in user today, with their daily quotas and what is
+ * left of them.
+ * @param {Request} req - Request object of the authenticated user.
+ * @param {Response} res - `res` is an object representing the HTTP response that will be sent back to
+ * the client.
+ * @returns a response with a status code of 200 and the usage, or a status code of 500 if it could not
+ * be fetched.
+ */
+export const getMyUsage = async (req: Request, res: Response) => {
+  try {
+    return res.status(200).json(await getUsage(req.body.decoded.id));
+  } catch (error: any) {
+    logger.error(error);
+    return res.status(500).json({ message: "Error fetching usage." });
+  }
+};
@@ -0,0 +1,195 @@
+import { createHash } from "crypto";
+import fs from "fs";
+import path from "path";
+import axios from "axios";
+import ProgressBar from "progress";
+import { Readable } from "stream";
+import logger from "./logger";
+
+/**
+ * Error thrown when a downloaded file does not have the expected size or hash. The partial file is
+ * deleted, so the next attempt starts over.
+ */
+export class ChecksumMismatchError extends Error {
+  constructor(file: string) {
+    super(`Downloaded file ${file} does not match its checksum.`);
+    this.name = "ChecksumMismatchError";
+  }
+}
+
+export interface DownloadSource {
+  /** The URL the file is downloaded from. */
+  url: string;
+  /** The expected size of the file in bytes. */
+  size?: number;
+  /** The expected SHA-256 hash of the file, in hex. */
+  sha256?: string;
+}
+
+export interface DownloadProgress {
+  status: "downloading" | "verifying" | "completed" | "failed";
+  /** The number of bytes on disk, including those of an earlier attempt that was resumed. */
+  received: number;
+  /** The size of the file in bytes, if known. */
+  total?: number;
+  error?: string;
+}
+
+/**
+ * The DownloadManager class downloads model files. A download is written to a `.part` file next to
+ * its destination, resumed with a Range request if that file already exists, verified against the
+ * expected size and hash, and only then renamed to its destination. Each download is identified by
+ * a key, so concurrent requests for the same file share one download and its progress can be read
+ * while it runs.
+ */
+export class DownloadManager {
+  private downloads = new Map<string, Promise<void>>();
+  private progress = new Map<string, DownloadProgress>();
+
+  /**
+   * This function downloads a file unless a download with the same key is already running, in which
+   * case it waits for that one.
+   * @param {string} key - Identifies the download, like the name of the model.
+   * @param {string} destination - The path the file is saved to.
+   * @param {DownloadSource} source - Where to download the file from and how to verify it.
+   * @returns A Promise that resolves once the file is at its destination.
+   */
+  download(
+    key: string,
+    destination: string,
+    source: DownloadSource
+  ): Promise<void> {
+    const running = this.downloads.get(key);
+    if (running) {
+      return running;
+    }
+
+    const download = this.run(key, destination, source)
+      .catch((error) => {
+        this.progress.set(key, {
+          ...(this.progress.get(key) as DownloadProgress),
+          status: "failed",
+          error: error.message,
+        });
+        throw error;
+      })
+      .finally(() => this.downloads.delete(key));
+
+    this.downloads.set(key, download);
+    return download;
+  }
+
+  /**
+   * This function returns the progress of the last download with this key, if there was one since
+   * the server started.
+   * @param {string} key - Identifies the download.
+   */
+  getProgress(key: string): DownloadProgress | undefined {
+    return this.progress.get(key);
+  }
+
+  private async run(
+    key: string,
+    destination: string,
+    source: DownloadSource
+  ): Promise<void> {
+    const partPath = `${destination}.part`;
+    await fs.promises.mkdir(path.dirname(destination), { recursive: true });
+
+    let received = fs.existsSync(partPath)
+      ? (await fs.promises.stat(partPath)).size
+      : 0;
+    const progress: DownloadProgress = {
+      status: "downloading",
+      received,
+      total: source.size,
+    };
+    this.progress.set(key, progress);
+
+    if (!source.size || received < source.size) {
+      if (received) {
+        logger.info(
+          `Resuming download of ${destination} at ${received} bytes.`
+        );
+      }
+
+      const { data, status, headers } = await axios.get<Readable>(source.url, {
+        responseType: "stream",
+        headers: received ? { Range: `bytes=${received}-` } : {},
+        // the part file is already complete when the server cannot satisfy the range
+        validateStatus: (status) =>
+          (status >= 200 && status < 300) || (received > 0 && status === 416),
+      });
+
+      if (status !== 416) {
+        // servers ignoring the range send the whole file again
+        if (status !== 206) {
+          received = 0;
+        }
+
+        const length = parseInt(headers["content-length"], 10);
+        progress.received = received;
+        progress.total =
+          source.size || (length ? received + length : undefined);
+
+        const progressBar = new ProgressBar("[:bar] :percent :etas", {
+          complete: "=",
+          incomplete: " ",
+          width: 20,
+          total: progress.total || 0,
+          curr: received,
+        });
+
+        const writer = fs.createWriteStream(partPath, {
+          flags: received ? "a" : "w",
+        });
+
+        data.on("data", (chunk: Buffer) => {
+          progress.received += chunk.length;
+          if (progress.total) {
+            progressBar.tick(chunk.length);
+          }
+        });
+
+        await new Promise((resolve, reject) => {
+          data.on("error", reject);
+          writer.on("finish", resolve);
+          writer.on("error", reject);
+          data.pipe(writer);
+        });
+      } else {
+        data.destroy();
+      }
+    }
+
+    progress.status = "verifying";
+    await this.verify(partPath, source);
+    await fs.promises.rename(partPath, destination);
+
+    progress.status = "completed";
+    logger.info(`File downloaded successfully to ${destination}`);
+  }
+
+  /**
+   * This function checks the size and hash of a downloaded file, deleting it if they do not match.
+   */
+  private async verify(file: string, source: DownloadSource): Promise<void> {
+    const { size } = await fs.promises.stat(file);
+    let valid = !source.size || size === source.size;
+
+    if (valid && source.sha256) {
+      const hash = createHash("sha256");
+      for await (const chunk of fs.createReadStream(file)) {
+        hash.update(chunk);
+      }
+      valid = hash.digest("hex") === source.sha256.toLowerCase();
+    }
+
+    if (!valid) {
+      await fs.promises.unlink(file);
+      throw new ChecksumMismatchError(file);
+    }
+  }
+}
+
+export const downloads = new DownloadManager();
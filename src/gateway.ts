@@ -0,0 +1,306 @@
+import { IncomingMessage, Server } from "http";
+import { Duplex } from "stream";
+import { WebSocket, WebSocketServer, RawData } from "ws";
+import { AnyObject, InferType, ObjectSchema, ValidationError } from "yup";
+import { DecodedToken, authenticate } from "./middlewares/auth.middleware";
+import { FieldError, getFieldErrors } from "./middlewares/validate.middleware";
+import {
+  gatewayCancelSchema,
+  gatewayPromptSchema,
+} from "../shared/schemas/bot.schema";
+import {
+  enqueuePrompt,
+  findConversation,
+  getPromptError,
+  pool,
+  promptQueue,
+  refundRefusedPrompt,
+  resolvePromptOptions,
+} from "./controllers/bot.controller";
+import { checkPromptAllowance } from "./usage";
+import { getBotUnavailability, getServerUnavailability } from "./readiness";
+import logger from "./logger";
+
+/**
+ * Messages sent by the client over the chat socket, checked against the shared gateway schemas.
+ */
+type ClientMessage =
+  | ({ type: "prompt" } & InferType<typeof gatewayPromptSchema>)
+  | ({ type: "cancel" } & InferType<typeof gatewayCancelSchema>);
+
+/**
+ * A client message that was not checked against its schema yet.
+ */
+type UncheckedMessage = Partial<Record<keyof ClientMessage, unknown>>;
+
+/**
+ * Messages sent to the client over the chat socket. Every message about a prompt carries the `id`
+ * the client chose for it.
+ */
+type ServerMessage =
+  | { type: "queued"; id: string; requestId: string; position: number }
+  | { type: "token"; id: string; token: string }
+  | { type: "done"; id: string; message: string }
+  | { type: "cancelled"; id: string }
+  | { type: "error"; id?: string; message: string; errors?: FieldError[] };
+
+export const GATEWAY_PATH = "/api/ws";
+
+/**
+ * Reads the JWT of an upgrade request, either from the `Authorization` header like `authMiddleware`
+ * does, or from the `token` query parameter for clients that cannot set headers on a WebSocket.
+ */
+const getToken = (req: IncomingMessage): string | null => {
+  const authHeader = req.headers.authorization;
+  if (authHeader) {
+    return authHeader.split(" ")[1] || null;
+  }
+
+  const url = new URL(req.url || "", "http://localhost");
+  return url.searchParams.get("token");
+};
+
+/**
+ * This function attaches the chat WebSocket gateway to an HTTP server. Clients connect to
+ * `/api/ws` with the same JWT used for the REST API, send `prompt` messages and receive the answer
+ * as a series of `token` messages followed by a `done` message. A `cancel` message cancels a
+ * prompt, and closing the connection cancels all of its prompts.
+ * @param {Server} server - The HTTP server the Express app is listening on.
+ * @returns The WebSocket server handling the gateway connections.
+ */
+export const attachChatGateway = (server: Server): WebSocketServer => {
+  const wss = new WebSocketServer({ noServer: true });
+
+  server.on("upgrade", async (req: IncomingMessage, socket: Duplex, head) => {
+    const url = new URL(req.url || "", "http://localhost");
+    if (url.pathname !== GATEWAY_PATH) {
+      socket.destroy();
+      return;
+    }
+
+    let decoded: DecodedToken;
+    try {
+      decoded = await authenticate(getToken(req) || "");
+    } catch (error) {
+      socket.write("HTTP/1.1 401 Unauthorized\r\nConnection: close\r\n\r\n");
+      socket.destroy();
+      return;
+    }
+
+    wss.handleUpgrade(req, socket, head, (ws) => {
+      wss.emit("connection", ws, req, decoded);
+    });
+  });
+
+  wss.on(
+    "connection",
+    (ws: WebSocket, _req: IncomingMessage, decoded: DecodedToken) => {
+      logger.info(`Gateway connection opened for user ${decoded.id}.`);
+      // queue request ids of the prompts of this connection, by prompt id, `null` while being queued
+      const active = new Map<string, string | null>();
+
+      const send = (message: ServerMessage) => {
+        if (ws.readyState === WebSocket.OPEN) {
+          ws.send(JSON.stringify(message));
+        }
+      };
+
+      /**
+       * Checks a message against its schema like the `validate` middleware does, and reports the
+       * errors of every invalid field to the client. Resolves with `null` if the message is invalid.
+       */
+      const validateMessage = async <S extends ObjectSchema<AnyObject>>(
+        schema: S,
+        message: UncheckedMessage
+      ): Promise<InferType<S> | null> => {
+        try {
+          return await schema.validate(message, { abortEarly: false });
+        } catch (error) {
+          if (!(error instanceof ValidationError)) {
+            throw error;
+          }
+
+          send({
+            type: "error",
+            id: typeof message.id === "string" ? message.id : undefined,
+            message: "Validation failed.",
+            errors: getFieldErrors(error),
+          });
+          return null;
+        }
+      };
+
+      const handlePrompt = async (message: UncheckedMessage) => {
+        const value = await validateMessage(gatewayPromptSchema, message);
+        if (!value) {
+          return;
+        }
+
+        const { id, prompt, model, conversationId, decoder } = value;
+        if (active.has(id)) {
+          send({ type: "error", id, message: "Prompt id is already in use." });
+          return;
+        }
+
+        // the id is taken until the prompt is queued, so a prompt with the same id sent meanwhile
+        // is refused too
+        active.set(id, null);
+        const refuse = (message: string) => {
+          active.delete(id);
+          send({ type: "error", id, message });
+        };
+
+        if (model && !pool.models.includes(model)) {
+          refuse(`Model ${model} is not running.`);
+          return;
+        }
+
+        const unavailability =
+          getServerUnavailability() || getBotUnavailability();
+        if (unavailability) {
+          refuse(unavailability.message);
+          return;
+        }
+
+        let queued: ReturnType<typeof enqueuePrompt>;
+        let counted = false;
+        try {
+          const { allowed, message } = await checkPromptAllowance({
+            id: decoded.id,
+          });
+          if (!allowed) {
+            refuse(message || "");
+            return;
+          }
+          counted = true;
+
+          const conversation = await findConversation(
+            decoded.id,
+            conversationId
+          );
+          if (conversation === null) {
+            await refundRefusedPrompt({ id: decoded.id });
+            refuse("Conversation not found.");
+            return;
+          }
+
+          const options = await resolvePromptOptions(
+            decoded.id,
+            conversation,
+            model,
+            decoder
+          );
+          queued = enqueuePrompt(decoded.id, prompt, {
+            ...options,
+            onToken: (token) => {
+              if (active.has(id)) {
+                send({ type: "token", id, token });
+              }
+            },
+          });
+        } catch (error) {
+          if (counted) {
+            await refundRefusedPrompt({ id: decoded.id });
+          }
+          refuse(getPromptError(error).message);
+          return;
+        }
+
+        // the connection closed while the prompt was being queued
+        if (!active.has(id)) {
+          promptQueue.cancel(queued.id);
+          return;
+        }
+
+        active.set(id, queued.id);
+        send({
+          type: "queued",
+          id,
+          requestId: queued.id,
+          position: queued.position,
+        });
+
+        try {
+          const response = await queued.result;
+
+          if (active.has(id)) {
+            send({ type: "done", id, message: response });
+          }
+        } catch (error) {
+          if (active.has(id)) {
+            send({ type: "error", id, message: getPromptError(error).message });
+          }
+        } finally {
+          active.delete(id);
+        }
+      };
+
+      const handleMessage = async (data: RawData) => {
+        let message: unknown;
+        try {
+          message = JSON.parse(data.toString());
+        } catch (error) {
+          send({ type: "error", message: "Message is not valid JSON." });
+          return;
+        }
+
+        // valid JSON may still be `null`, a number or an array
+        if (
+          typeof message !== "object" ||
+          message === null ||
+          Array.isArray(message)
+        ) {
+          send({ type: "error", message: "Message must be a JSON object." });
+          return;
+        }
+
+        const { type } = message as UncheckedMessage;
+        if (type === "prompt") {
+          await handlePrompt(message);
+        } else if (type === "cancel") {
+          const value = await validateMessage(gatewayCancelSchema, message);
+          if (!value) {
+            return;
+          }
+
+          const requestId = active.get(value.id);
+          if (requestId) {
+            active.delete(value.id);
+            promptQueue.cancel(requestId);
+            send({ type: "cancelled", id: value.id });
+          } else {
+            send({
+              type: "error",
+              id: value.id,
+              message: "No active prompt with this id.",
+            });
+          }
+        } else {
+          send({ type: "error", message: "Unknown message type." });
+        }
+      };
+
+      // an error thrown by a listener of the socket would take the whole server down
+      ws.on("message", async (data: RawData) => {
+        try {
+          await handleMessage(data);
+        } catch (error) {
+          logger.error(error);
+          send({ type: "error", message: "Message could not be handled." });
+        }
+      });
+
+      ws.on("close", () => {
+        for (const requestId of active.values()) {
+          if (requestId) {
+            promptQueue.cancel(requestId);
+          }
+        }
+        active.clear();
+        logger.info(`Gateway connection closed for user ${decoded.id}.`);
+      });
+    }
+  );
+
+  return wss;
+};
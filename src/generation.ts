@@ -0,0 +1,20 @@
+import { generationSettingsSchema } from "../shared/schemas/generation.schema";
+import { DecoderSettings } from "./bot";
+
+export { generationSettingsSchema };
+
+/**
+ * This function checks generation settings against their allowed ranges.
+ * @param {unknown} settings - The settings to check, usually from a request body.
+ * @returns A Promise that resolves with the settings, without the ones that were not set.
+ * @throws {Yup.ValidationError} If a setting is unknown or out of range.
+ */
+export const validateGenerationSettings = async (
+  settings: unknown
+): Promise<DecoderSettings> => {
+  const valid = await generationSettingsSchema.validate(settings);
+
+  return Object.fromEntries(
+    Object.entries(valid || {}).filter(([, value]) => value !== undefined)
+  );
+};
@@ -1,42 +1,103 @@
-import express, { Request, Response } from "express";
-import cors from "cors";
-import { bot } from "./controllers/bot.controller";
-import AuthRoutes from "./routes/user.routes";
-import ResponseRoutes from "./routes/response.routes";
-import BotRoutes from "./routes/bot.routes";
-import LLMRoutes from "./routes/llm.routes";
+import "dotenv/config";
+import app from "./app";
+import { pool, promptQueue } from "./controllers/bot.controller";
 import mongoose from "mongoose";
-import dotenv from "dotenv";
 import logger from "./logger";
+import { attachChatGateway } from "./gateway";
+import { seedCatalog } from "./catalog";
+import ResponseModel from "./models/response.model";
+import { startShutdown } from "./readiness";
 
-dotenv.config();
-
-const app = express();
 const port = process.env.PORT || 3001;
+// "open" downloads and opens the bot, "init" only downloads its files, and "manual" leaves both to
+// an admin calling POST /api/bot/open
+const botStartup = process.env.BOT_STARTUP || "open";
+const shutdownTimeout = parseInt(
+  process.env.SHUTDOWN_TIMEOUT_MS || "30000",
+  10
+);
 
-app.use(cors());
-app.use(express.json());
+/**
+ * Connects to MongoDB, then prepares the bot pool as set by `BOT_STARTUP`. The server already
+ * listens meanwhile, answering requests with `503 Service Unavailable` until it is ready.
+ */
+const start = async () => {
+  try {
+    const db = await mongoose.connect(process.env.MONGODB_URI || "");
+    console.log(`Connected to mongoDB: ${db.connection.name}`);
 
-app.use("/api/auth", AuthRoutes);
-app.use("/api/responses", ResponseRoutes);
-app.use("/api/bot", BotRoutes);
-app.use("/api/llm", LLMRoutes);
+    // older databases have a unique index on the input of responses alone, which keeps two users
+    // from saving the same input; syncing drops it for the index per user
+    await ResponseModel.syncIndexes();
+    await seedCatalog();
 
-app.use("*", (_req: Request, res: Response) => {
-  res.status(404).json({ message: "Not found" });
-});
+    if (botStartup === "manual") {
+      logger.info("Bot startup is manual, not opening the bot.");
+      return;
+    }
 
-app.listen(port, async () => {
+    await pool.init();
+    if (botStartup === "open") {
+      await pool.open();
+    }
+  } catch (error) {
+    pool.close();
+    logger.error(error);
+  }
+};
+
+const server = app.listen(port, () => {
   logger.info(`Server is running on port: ${port}`);
+  start();
+});
 
-  try {
-    const db = await mongoose.connect(process.env.MONGODB_URI || "");
-    console.log(`Connected to mongoDB: ${db.connection.name}`);
+const gateway = attachChatGateway(server);
 
-    await bot.init();
-    await bot.open();
+let stopping = false;
+
+/**
+ * Stops the server: new requests and prompts are refused, the prompts already accepted are answered
+ * or cancelled after `SHUTDOWN_TIMEOUT_MS` milliseconds, and then the connections, the bot processes
+ * and MongoDB are closed. A second signal exits right away.
+ */
+const shutdown = async (signal: NodeJS.Signals) => {
+  if (stopping) {
+    logger.warn(`Received ${signal} again, exiting now.`);
+    process.exit(1);
+  }
+
+  stopping = true;
+  logger.info(`Received ${signal}, shutting down.`);
+  startShutdown();
+
+  // stop accepting connections; the callback runs once the open ones are closed
+  const closed = new Promise<void>((resolve) => server.close(() => resolve()));
+  server.closeIdleConnections();
+
+  if (!(await promptQueue.drain(shutdownTimeout))) {
+    logger.warn("Cancelled the prompts that were still running.");
+  }
+
+  for (const client of gateway.clients) {
+    client.close(1001, "Server is shutting down.");
+  }
+  gateway.close();
+  server.closeAllConnections();
+  pool.close();
+
+  try {
+    await closed;
+    // closing waits for a connection that is still being made, so only close an open one
+    if (mongoose.connection.readyState === 1) {
+      await mongoose.connection.close();
+    }
   } catch (error) {
-    await bot.close();
     logger.error(error);
   }
-});
+
+  logger.info("Server stopped.");
+  process.exit(0);
+};
+
+process.on("SIGINT", shutdown);
+process.on("SIGTERM", shutdown);
@@ -2,6 +2,8 @@ import winston from "winston";
 
 const logger = winston.createLogger({
   level: "info",
+  // keeps the output of the tests readable
+  silent: process.env.NODE_ENV === "test",
   format: winston.format.combine(
     winston.format.timestamp(),
     winston.format.printf(({ timestamp, level, message }) => {
@@ -0,0 +1,225 @@
+/**
+ * The failed login attempts of an account or IP address.
+ */
+export interface AttemptRecord {
+  failures: number;
+  /** When the last attempt failed, in milliseconds since the epoch. */
+  lastFailureAt: number;
+  /** Until when no attempts are allowed, in milliseconds since the epoch. */
+  blockedUntil: number;
+}
+
+/**
+ * An AttemptStore keeps the attempt records of the login throttle. The in-memory store only works for
+ * a single server; a shared store is needed when running several.
+ */
+export interface AttemptStore {
+  get(key: string): Promise<AttemptRecord | undefined>;
+  /** Saves a record, which can be forgotten after `ttl` milliseconds. */
+  set(key: string, record: AttemptRecord, ttl: number): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * Keeps attempt records in memory, forgetting them once they expire.
+ */
+export class MemoryAttemptStore implements AttemptStore {
+  private records = new Map<
+    string,
+    { record: AttemptRecord; expiresAt: number }
+  >();
+
+  constructor(private now: () => number = Date.now) {}
+
+  async get(key: string): Promise<AttemptRecord | undefined> {
+    const entry = this.records.get(key);
+
+    if (entry && entry.expiresAt <= this.now()) {
+      this.records.delete(key);
+      return undefined;
+    }
+
+    return entry?.record;
+  }
+
+  async set(key: string, record: AttemptRecord, ttl: number): Promise<void> {
+    this.sweep();
+    this.records.set(key, { record, expiresAt: this.now() + ttl });
+  }
+
+  async delete(key: string): Promise<void> {
+    this.records.delete(key);
+  }
+
+  /** Forgets the expired records, so addresses that stopped trying do not pile up. */
+  private sweep() {
+    const now = this.now();
+    for (const [key, { expiresAt }] of this.records) {
+      if (expiresAt <= now) {
+        this.records.delete(key);
+      }
+    }
+  }
+}
+
+export interface ThrottleOptions {
+  /** The number of failures allowed before attempts are delayed. */
+  freeAttempts: number;
+  /** The delay after the first delayed failure, doubled with every further failure. */
+  baseDelay: number;
+  /** The longest delay between attempts. */
+  maxDelay: number;
+  /** The number of failures after which attempts are blocked for `lockout`. */
+  maxFailures: number;
+  /** How long attempts are blocked after `maxFailures` failures. */
+  lockout: number;
+  /** How long failures are remembered after the last one. */
+  window: number;
+}
+
+/**
+ * Counts the failed login attempts of a key, like an account or an IP address, and delays further
+ * attempts exponentially, until the key is locked out for a while.
+ */
+export class LoginThrottle {
+  constructor(
+    private store: AttemptStore,
+    private options: ThrottleOptions,
+    private now: () => number = Date.now
+  ) {}
+
+  /**
+   * This function returns how long a key has to wait before its next attempt.
+   * @param {string} key - The account or IP address trying to log in.
+   * @returns A Promise that resolves with the number of milliseconds to wait, 0 if it can try now.
+   */
+  async getRetryAfter(key: string): Promise<number> {
+    const record = await this.store.get(key);
+    return record ? Math.max(0, record.blockedUntil - this.now()) : 0;
+  }
+
+  /**
+   * This function records a failed attempt of a key and blocks it as long as its failures require.
+   * @param {string} key - The account or IP address that failed to log in.
+   * @returns A Promise that resolves with the record of the key.
+   */
+  async recordFailure(key: string): Promise<AttemptRecord> {
+    const { freeAttempts, baseDelay, maxDelay, maxFailures, lockout, window } =
+      this.options;
+    const now = this.now();
+
+    const previous = await this.store.get(key);
+    const failures =
+      previous && now - previous.lastFailureAt < window
+        ? previous.failures + 1
+        : 1;
+
+    let blockedUntil = 0;
+    if (failures >= maxFailures) {
+      blockedUntil = now + lockout;
+    } else if (failures > freeAttempts) {
+      blockedUntil =
+        now +
+        Math.min(maxDelay, baseDelay * 2 ** (failures - freeAttempts - 1));
+    }
+
+    const record = { failures, lastFailureAt: now, blockedUntil };
+    await this.store.set(key, record, Math.max(window, blockedUntil - now));
+
+    return record;
+  }
+
+  /**
+   * This function forgets the failed attempts of a key.
+   * @param {string} key - The account or IP address that logged in.
+   */
+  async reset(key: string): Promise<void> {
+    await this.store.delete(key);
+  }
+}
+
+const minute = 60 * 1000;
+const maxFailures = parseInt(process.env.LOGIN_MAX_FAILURES || "10", 10);
+const maxFailuresPerIp = parseInt(
+  process.env.LOGIN_MAX_FAILURES_PER_IP || "50",
+  10
+);
+const lockout =
+  parseInt(process.env.LOGIN_LOCKOUT_MINUTES || "15", 10) * minute;
+
+/**
+ * Throttles logins per account and per IP address. An IP address is allowed more failures than an
+ * account, since several users can share it.
+ */
+export class LoginGuard {
+  private account: LoginThrottle;
+  private ip: LoginThrottle;
+
+  constructor(
+    store: AttemptStore = new MemoryAttemptStore(),
+    now: () => number = Date.now
+  ) {
+    this.account = new LoginThrottle(
+      store,
+      {
+        freeAttempts: 3,
+        baseDelay: 1000,
+        maxDelay: minute,
+        maxFailures,
+        lockout,
+        window: 60 * minute,
+      },
+      now
+    );
+    this.ip = new LoginThrottle(
+      store,
+      {
+        freeAttempts: 10,
+        baseDelay: 1000,
+        maxDelay: minute,
+        maxFailures: maxFailuresPerIp,
+        lockout,
+        window: 60 * minute,
+      },
+      now
+    );
+  }
+
+  private static accountKey = (email: string) =>
+    `account:${email.trim().toLowerCase()}`;
+
+  private static ipKey = (ip: string) => `ip:${ip}`;
+
+  /**
+   * This function returns how long a login to an account from an IP address has to wait.
+   * @returns A Promise that resolves with the number of milliseconds to wait, 0 if it can try now.
+   */
+  async getRetryAfter(email: string, ip: string): Promise<number> {
+    const [account, address] = await Promise.all([
+      this.account.getRetryAfter(LoginGuard.accountKey(email)),
+      this.ip.getRetryAfter(LoginGuard.ipKey(ip)),
+    ]);
+
+    return Math.max(account, address);
+  }
+
+  /**
+   * This function records a failed login to an account from an IP address.
+   */
+  async recordFailure(email: string, ip: string): Promise<void> {
+    await Promise.all([
+      this.account.recordFailure(LoginGuard.accountKey(email)),
+      this.ip.recordFailure(LoginGuard.ipKey(ip)),
+    ]);
+  }
+
+  /**
+   * This function forgets the failed logins to an account after it logged in. The failures of the IP
+   * address are kept, so logging into one account does not allow guessing the passwords of others.
+   */
+  async recordSuccess(email: string): Promise<void> {
+    await this.account.reset(LoginGuard.accountKey(email));
+  }
+}
+
+export const loginGuard = new LoginGuard();
@@ -0,0 +1,53 @@
+import { FileMailer } from "./mailers/file.mailer";
+import { Mailer } from "./mailers/mailer";
+import { SmtpMailer } from "./mailers/smtp.mailer";
+
+const appUrl = process.env.APP_URL || "";
+
+/**
+ * The mailer of the server. Emails are sent through the SMTP server in `SMTP_URL` when it is set, and
+ * written to the `MAIL_DIR` directory or the log otherwise.
+ */
+export const mailer: Mailer = process.env.SMTP_URL
+  ? new SmtpMailer(
+      process.env.SMTP_URL,
+      process.env.MAIL_FROM || "AIModelMate <no-reply@localhost>"
+    )
+  : new FileMailer(process.env.MAIL_DIR);
+
+/**
+ * Returns the text telling the user what to do with a token, with a link to the app if `APP_URL` is
+ * set.
+ */
+const getTokenText = (action: string, screen: string, token: string) =>
+  appUrl
+    ? `Open this link to ${action}:\n\n${appUrl}/${screen}?token=${token}`
+    : `Enter this code in the app to ${action}:\n\n${token}`;
+
+/**
+ * This function sends a user the token to reset their password.
+ * @param {string} email - The email of the user.
+ * @param {string} token - The password reset token.
+ */
+export const sendPasswordResetEmail = (email: string, token: string) =>
+  mailer.send({
+    to: email,
+    subject: "Reset your password",
+    text: `Someone asked to reset the password of your account. If it was not you, ignore this email.\n\n${getTokenText(
+      "choose a new password",
+      "reset-password",
+      token
+    )}`,
+  });
+
+/**
+ * This function sends the token to verify an email address to that address.
+ * @param {string} email - The email address to verify.
+ * @param {string} token - The email verification token.
+ */
+export const sendVerificationEmail = (email: string, token: string) =>
+  mailer.send({
+    to: email,
+    subject: "Verify your email",
+    text: getTokenText("verify your email", "verify-email", token),
+  });
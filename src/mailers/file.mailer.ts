@@ -0,0 +1,32 @@
+import fs from "fs";
+import path from "path";
+import logger from "../logger";
+import { MailMessage, Mailer } from "./mailer";
+
+/**
+ * Writes emails to files in a directory, or to the log if there is none, instead of sending them. It
+ * is meant for local development, where the links in the emails can be copied from there.
+ */
+export class FileMailer implements Mailer {
+  /**
+   * @param {string} [directory] - The directory the emails are written to, the log if not set.
+   */
+  constructor(private directory?: string) {}
+
+  async send({ to, subject, text }: MailMessage): Promise<void> {
+    const mail = `To: ${to}\nSubject: ${subject}\n\n${text}\n`;
+
+    if (!this.directory) {
+      logger.info(`Email not sent:\n${mail}`);
+      return;
+    }
+
+    await fs.promises.mkdir(this.directory, { recursive: true });
+    const file = path.join(
+      this.directory,
+      `${Date.now()}-${to.replace(/[^\w.@-]/g, "_")}.txt`
+    );
+    await fs.promises.writeFile(file, mail);
+    logger.info(`Email to ${to} written to ${file}.`);
+  }
+}
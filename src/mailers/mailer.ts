@@ -0,0 +1,13 @@
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+/**
+ * A Mailer delivers the emails of the server, like password reset and email verification links.
+ */
+export interface Mailer {
+  /** Sends an email and resolves once it was handed over for delivery. */
+  send(message: MailMessage): Promise<void>;
+}
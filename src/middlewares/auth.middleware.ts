@@ -1,14 +1,52 @@
 // auth.middleware.ts
 import { Request, Response, NextFunction } from "express";
 import jwt from "jsonwebtoken";
+import User, { UserRole } from "../models/user.model";
+import { ApiKeyScope } from "../models/apiKey.model";
+import { isSessionActive } from "../sessions";
+import { authenticateApiKey, isApiKey } from "../apiKeys";
 
-interface DecodedToken {
+export interface DecodedToken {
   id: string;
+  /** The id of the session the token was issued for. */
+  sid: string;
   iat: number;
   exp: number;
 }
 
-export const authMiddleware = (
+/**
+ * Verifies a JWT issued by the auth controller and returns its payload. Throws if the token is not
+ * valid.
+ */
+export const verifyToken = (token: string): DecodedToken =>
+  jwt.verify(token, process.env.JWT_SECRET || "") as DecodedToken;
+
+/**
+ * Verifies a JWT and checks that its session was not revoked. Throws if the token is not valid.
+ */
+export const authenticate = async (token: string): Promise<DecodedToken> => {
+  const decoded = verifyToken(token);
+
+  if (!(await isSessionActive(decoded.sid))) {
+    throw new Error("Session is not active.");
+  }
+
+  return decoded;
+};
+
+/**
+ * Creates a middleware, used before `authMiddleware`, that lets API keys with one of the given scopes
+ * access the route. API keys are rejected by routes that do not allow them.
+ * @param {ApiKeyScope[]} scopes - The scopes of which an API key needs one to access the route.
+ */
+export const allowApiKey =
+  (...scopes: ApiKeyScope[]) =>
+  (_req: Request, res: Response, next: NextFunction) => {
+    res.locals.apiKeyScopes = scopes;
+    next();
+  };
+
+export const authMiddleware = async (
   req: Request,
   res: Response,
   next: NextFunction
@@ -20,17 +58,77 @@ export const authMiddleware = (
   }
 
   // Extract the token from the Authorization header
-  const token = authHeader.split(" ")[1];
+  const token = authHeader.split(" ")[1] || "";
+
+  if (isApiKey(token)) {
+    const scopes: ApiKeyScope[] = res.locals.apiKeyScopes || [];
+    if (!scopes.length) {
+      return res
+        .status(403)
+        .json({ message: "API keys cannot access this endpoint." });
+    }
+
+    try {
+      const apiKey = await authenticateApiKey(token);
+
+      if (!scopes.some((scope) => apiKey.scopes.includes(scope))) {
+        return res.status(403).json({
+          message: `API key is missing the ${scopes.join(" or ")} scope.`,
+        });
+      }
+
+      req.body.decoded = {
+        id: String(apiKey.userId),
+        apiKeyId: apiKey.id,
+        scopes: apiKey.scopes,
+      };
+    } catch (error: any) {
+      console.log(error);
+      return res.status(401).json({ message: "API key is not valid." });
+    }
+
+    return next();
+  }
 
   try {
-    const decoded = jwt.verify(
-      token,
-      process.env.JWT_SECRET || ""
-    ) as DecodedToken;
-    req.body.decoded = decoded;
-    next();
+    req.body.decoded = await authenticate(token);
   } catch (error: any) {
     console.log(error);
-    res.status(401).json({ message: "Token is not valid." });
+    return res.status(401).json({ message: "Token is not valid." });
   }
+
+  next();
 };
+
+/**
+ * Returns the role of a user, or undefined if the user does not exist anymore.
+ */
+export const getUserRole = async (
+  userId: string
+): Promise<UserRole | undefined> => {
+  const user = await User.findById(userId).select("role");
+  return user?.role;
+};
+
+/**
+ * Creates a middleware, used after `authMiddleware`, that only lets users with one of the given roles
+ * through. The role is read from the database, so changing it takes effect right away.
+ * @param {UserRole[]} roles - The roles allowed to access the route.
+ */
+export const requireRole =
+  (...roles: UserRole[]) =>
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const role = await getUserRole(req.body.decoded.id);
+
+      if (!role || !roles.includes(role)) {
+        return res.status(403).json({ message: "Access denied." });
+      }
+
+      req.body.decoded.role = role;
+      next();
+    } catch (error: any) {
+      console.log(error);
+      res.status(500).json({ message: "Error checking role." });
+    }
+  };
@@ -0,0 +1,80 @@
+import { Request, Response, NextFunction } from "express";
+import { FieldError } from "./validate.middleware";
+
+export interface OpenAIError {
+  error: {
+    message: string;
+    type: string;
+    param: string | null;
+    code: string | null;
+  };
+}
+
+const errorTypes: Record<number, string> = {
+  401: "authentication_error",
+  403: "permission_error",
+  404: "invalid_request_error",
+  429: "rate_limit_error",
+};
+
+/**
+ * Builds an error body in the format of the OpenAI API.
+ * @param {number} status - The HTTP status code of the error.
+ * @param {string} message - What went wrong.
+ * @param {string} [code] - A machine-readable code, like `model_not_found`.
+ * @param {string} [param] - The request parameter that caused the error.
+ */
+export const toOpenAIError = (
+  status: number,
+  message: string,
+  code?: string,
+  param?: string
+): OpenAIError => ({
+  error: {
+    message,
+    type:
+      errorTypes[status] ||
+      (status < 500 ? "invalid_request_error" : "server_error"),
+    param: param || null,
+    code: code || null,
+  },
+});
+
+/**
+ * The error responses of the other middlewares, or an OpenAI error that is sent as it is.
+ */
+interface ErrorBody {
+  message?: string;
+  errors?: FieldError[];
+  error?: unknown;
+}
+
+/**
+ * Rewrites the `{ message }` error responses of the other middlewares, like `authMiddleware`,
+ * `validate` and `limitPrompts`, into the error format of the OpenAI API, so OpenAI clients can
+ * read them. Used first on the OpenAI-compatible routes.
+ */
+export const openAIErrors = (
+  _req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  const json = res.json.bind(res);
+
+  res.json = (body?: unknown) => {
+    const { message, errors, error } = (body || {}) as ErrorBody;
+    if (res.statusCode < 400 || !message || error) {
+      return json(body);
+    }
+
+    const text = errors?.length
+      ? errors.map((it) => it.message).join("; ")
+      : message;
+
+    return json(
+      toOpenAIError(res.statusCode, text, undefined, errors?.[0]?.path)
+    );
+  };
+
+  next();
+};
@@ -0,0 +1,34 @@
+import { Request, Response, NextFunction } from "express";
+import { checkPromptAllowance } from "../usage";
+import logger from "../logger";
+
+/**
+ * Rejects prompts of users who exceeded their rate limit or daily quotas with `429 Too Many Requests`.
+ * Used after `authMiddleware`. Every response carries the `RateLimit-*` headers of the user or API
+ * key.
+ */
+export const limitPrompts = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { id, apiKeyId } = req.body.decoded;
+    const { allowed, message, retryAfter, headers } =
+      await checkPromptAllowance({ id, apiKeyId });
+
+    res.set(headers);
+
+    if (!allowed) {
+      return res
+        .status(429)
+        .set("Retry-After", String(retryAfter))
+        .json({ message });
+    }
+
+    next();
+  } catch (error: any) {
+    logger.error(error);
+    res.status(500).json({ message: "Error checking rate limit." });
+  }
+};
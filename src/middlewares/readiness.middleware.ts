@@ -0,0 +1,53 @@
+import { Request, Response, NextFunction } from "express";
+import {
+  Unavailability,
+  getBotUnavailability,
+  getServerUnavailability,
+  isShuttingDown,
+} from "../readiness";
+
+const reject = (res: Response, { message, retryAfter }: Unavailability) => {
+  if (isShuttingDown()) {
+    // the connection would keep the server from stopping
+    res.set("Connection", "close");
+  }
+
+  return res
+    .status(503)
+    .set("Retry-After", String(retryAfter))
+    .json({ message });
+};
+
+/**
+ * Rejects requests with `503 Service Unavailable` and a `Retry-After` header while the server is not
+ * connected to MongoDB yet or is shutting down.
+ */
+export const requireServer = (
+  _req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  const unavailability = getServerUnavailability();
+  if (unavailability) {
+    return reject(res, unavailability);
+  }
+
+  next();
+};
+
+/**
+ * Rejects prompts with `503 Service Unavailable` and a `Retry-After` header while no worker of the
+ * bot pool can take them, like while the model downloads or a crashed worker restarts.
+ */
+export const requireBot = (
+  _req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  const unavailability = getBotUnavailability();
+  if (unavailability) {
+    return reject(res, unavailability);
+  }
+
+  next();
+};
@@ -0,0 +1,63 @@
+import { Request, Response, NextFunction } from "express";
+import { AnyObject, ObjectSchema, ValidationError } from "yup";
+
+export interface FieldError {
+  /** The path of the invalid field, like `decoder.temp`. */
+  path: string;
+  message: string;
+}
+
+/**
+ * Lists the errors of every invalid field of a failed validation.
+ * @param {ValidationError} error - The error thrown by a schema validated with `abortEarly: false`.
+ */
+export const getFieldErrors = (error: ValidationError): FieldError[] =>
+  (error.inner.length ? error.inner : [error]).map(({ path, message }) => ({
+    path: path || "",
+    message,
+  }));
+
+/**
+ * Creates a middleware that checks a part of the request against a schema. Invalid requests are
+ * rejected with `400 Bad Request` and the errors of every invalid field. Valid requests continue with
+ * the cast values, and fields that are not in the schema are dropped, so controllers can only see
+ * what the schema allows.
+ * @param {ObjectSchema} schema - The schema, usually one of the shared schemas.
+ * @param {"body" | "params" | "query"} [source] - The part of the request to check, the body if not set.
+ */
+export const validate =
+  (
+    schema: ObjectSchema<AnyObject>,
+    source: "body" | "params" | "query" = "body"
+  ) =>
+  async (req: Request, res: Response, next: NextFunction) => {
+    // the body also holds the decoded token, which is not part of the request
+    const { decoded, ...input } = req[source] || {};
+
+    let value: AnyObject;
+    try {
+      value = await schema.validate(input, { abortEarly: false });
+    } catch (error) {
+      if (!(error instanceof ValidationError)) {
+        return next(error);
+      }
+
+      return res
+        .status(400)
+        .json({ message: "Validation failed.", errors: getFieldErrors(error) });
+    }
+
+    const fields = Object.fromEntries(
+      Object.keys(schema.fields)
+        .filter((field) => value[field] !== undefined)
+        .map((field) => [field, value[field]])
+    );
+
+    if (source === "body") {
+      req.body = decoded ? { ...fields, decoded } : fields;
+    } else {
+      Object.assign(req[source], fields);
+    }
+
+    next();
+  };
@@ -0,0 +1,39 @@
+import mongoose, { Schema, Document } from "mongoose";
+import {
+  API_KEY_SCOPES,
+  ApiKeyScope,
+} from "../../shared/schemas/apiKey.schema";
+
+export { API_KEY_SCOPES, ApiKeyScope };
+
+export interface IApiKey extends Document {
+  userId: Schema.Types.ObjectId;
+  name: string;
+  /** The SHA-256 hash of the key, the key itself is only shown once when it is created. */
+  keyHash: string;
+  /** The first characters of the key, so users can tell their keys apart. */
+  prefix: string;
+  scopes: ApiKeyScope[];
+  lastUsedAt?: Date;
+  revokedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ApiKeySchema: Schema = new Schema(
+  {
+    userId: { type: Schema.Types.ObjectId, required: true, index: true },
+    name: { type: String, required: true, trim: true, maxlength: 100 },
+    keyHash: { type: String, required: true, unique: true, select: false },
+    prefix: { type: String, required: true },
+    scopes: {
+      type: [{ type: String, enum: API_KEY_SCOPES }],
+      required: true,
+    },
+    lastUsedAt: Date,
+    revokedAt: Date,
+  },
+  { timestamps: true }
+);
+
+export default mongoose.model<IApiKey>("ApiKey", ApiKeySchema);
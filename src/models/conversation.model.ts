@@ -0,0 +1,39 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+export interface IMessage {
+  role: "user" | "assistant";
+  content: string;
+  createdAt: Date;
+}
+
+export interface IConversation extends Document {
+  title: string;
+  userId: Schema.Types.ObjectId;
+  model?: string;
+  messages: IMessage[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const MessageSchema: Schema = new Schema(
+  {
+    role: { type: String, enum: ["user", "assistant"], required: true },
+    content: { type: String, required: true },
+  },
+  { timestamps: { createdAt: true, updatedAt: false } }
+);
+
+const ConversationSchema: Schema = new Schema(
+  {
+    title: { type: String, default: "New conversation" },
+    userId: { type: Schema.Types.ObjectId, required: true, index: true },
+    model: String,
+    messages: [MessageSchema],
+  },
+  { timestamps: true }
+);
+
+export default mongoose.model<IConversation>(
+  "Conversation",
+  ConversationSchema
+);
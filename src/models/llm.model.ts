@@ -1,11 +1,56 @@
 import mongoose, { Schema, Document } from "mongoose";
+import { BackendOptions, DecoderSettings } from "../bot";
+import { DownloadSource } from "../downloads";
+import { PROMPT_TEMPLATES, PromptTemplateName } from "../prompt";
 
 export interface ILLM extends Document {
   name: string;
+  backend: BackendOptions;
+  promptTemplate: PromptTemplateName;
+  systemPrompt?: string;
+  contextTokens: number;
+  /** The default decoder settings of the model. */
+  decoder?: DecoderSettings;
+  sourceUrl?: string;
+  size?: number;
+  sha256?: string;
+  license?: string;
+  quantization?: string;
 }
 
 const LLMSchema: Schema = new Schema({
   name: { type: String, required: true, unique: true },
+  backend: {
+    type: { type: String, enum: ["gpt4all", "http"], default: "gpt4all" },
+    url: String,
+    api: { type: String, enum: ["openai", "llamacpp"], default: "openai" },
+    apiKey: { type: String, select: false },
+    model: String,
+  },
+  promptTemplate: { type: String, enum: PROMPT_TEMPLATES, default: "raw" },
+  systemPrompt: String,
+  contextTokens: { type: Number, default: 2048, min: 1 },
+  decoder: {
+    temp: Number,
+    top_k: Number,
+    top_p: Number,
+    n_predict: Number,
+    repeat_penalty: Number,
+  },
+  sourceUrl: String,
+  size: { type: Number, min: 0 },
+  sha256: { type: String, lowercase: true, match: /^[a-f0-9]{64}$/ },
+  license: String,
+  quantization: String,
 });
 
+/**
+ * This function returns where the file of a model is downloaded from, if the catalog knows it.
+ * @param {ILLM} llm - The catalog entry of the model.
+ */
+export const getDownloadSource = (llm: ILLM): DownloadSource | undefined =>
+  llm.sourceUrl
+    ? { url: llm.sourceUrl, size: llm.size, sha256: llm.sha256 }
+    : undefined;
+
 export default mongoose.model<ILLM>("LLM", LLMSchema);
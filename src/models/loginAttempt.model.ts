@@ -0,0 +1,39 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+export type LoginFailureReason = "invalid_credentials" | "throttled";
+
+export interface ILoginAttempt extends Document {
+  email: string;
+  /** The user with the email, if there is one. */
+  userId?: Schema.Types.ObjectId;
+  ip?: string;
+  userAgent?: string;
+  reason: LoginFailureReason;
+  createdAt: Date;
+}
+
+const LoginAttemptSchema: Schema = new Schema(
+  {
+    email: { type: String, required: true, index: true },
+    userId: { type: Schema.Types.ObjectId, index: true },
+    ip: { type: String, index: true },
+    userAgent: String,
+    reason: {
+      type: String,
+      enum: ["invalid_credentials", "throttled"],
+      required: true,
+    },
+  },
+  { timestamps: { createdAt: true, updatedAt: false } }
+);
+
+// failed logins are kept for 90 days
+LoginAttemptSchema.index(
+  { createdAt: 1 },
+  { expireAfterSeconds: 90 * 24 * 60 * 60 }
+);
+
+export default mongoose.model<ILoginAttempt>(
+  "LoginAttempt",
+  LoginAttemptSchema
+);
@@ -7,9 +7,12 @@ export interface IResponse extends Document {
 }
 
 const ResponseSchema: Schema = new Schema({
-  input: { type: String, required: true, unique: true },
+  input: { type: String, required: true },
   output: { type: String, required: true },
-  userId: Schema.Types.ObjectId,
+  userId: { type: Schema.Types.ObjectId, required: true },
 });
 
+// inputs are unique per user, so one user's saved answers do not block or reveal another's
+ResponseSchema.index({ userId: 1, input: 1 }, { unique: true });
+
 export default mongoose.model<IResponse>("Response", ResponseSchema);
@@ -0,0 +1,30 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+export interface ISession extends Document {
+  userId: Schema.Types.ObjectId;
+  /** The SHA-256 hash of the current refresh token, the token itself is never stored. */
+  refreshTokenHash: string;
+  expiresAt: Date;
+  revokedAt?: Date;
+  userAgent?: string;
+  ip?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const SessionSchema: Schema = new Schema(
+  {
+    userId: { type: Schema.Types.ObjectId, required: true, index: true },
+    refreshTokenHash: { type: String, required: true },
+    expiresAt: { type: Date, required: true },
+    revokedAt: Date,
+    userAgent: String,
+    ip: String,
+  },
+  { timestamps: true }
+);
+
+// MongoDB deletes sessions once their refresh token has expired
+SessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export default mongoose.model<ISession>("Session", SessionSchema);
@@ -0,0 +1,25 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+export interface IUsage extends Document {
+  userId: Schema.Types.ObjectId;
+  /** The UTC day the usage was counted on, as `YYYY-MM-DD`. */
+  day: string;
+  /** The number of prompts sent, counted when they are allowed. */
+  prompts: number;
+  /** The number of prompts sent through each API key, by API key id. */
+  apiKeys?: Map<string, number>;
+  /** The number of characters generated in the answers. */
+  characters: number;
+}
+
+const UsageSchema: Schema = new Schema({
+  userId: { type: Schema.Types.ObjectId, required: true },
+  day: { type: String, required: true },
+  prompts: { type: Number, default: 0 },
+  apiKeys: { type: Map, of: Number },
+  characters: { type: Number, default: 0 },
+});
+
+UsageSchema.index({ userId: 1, day: 1 }, { unique: true });
+
+export default mongoose.model<IUsage>("Usage", UsageSchema);
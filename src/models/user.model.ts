@@ -1,13 +1,42 @@
 import mongoose, { Schema, Document } from "mongoose";
+import { DecoderSettings } from "../bot";
+
+export interface IUserPreferences {
+  /** The model answering prompts that do not ask for one. */
+  defaultModel?: string;
+  /** The decoder settings of the prompts of the user. */
+  decoder?: DecoderSettings;
+  /** Replaces the system prompt of the model. */
+  systemPrompt?: string;
+}
+
+export type UserRole = "user" | "admin";
 
 export interface IUser extends Document {
   email: string;
+  /** Whether the user proved they own their email address. */
+  emailVerified: boolean;
   password: string;
+  role: UserRole;
+  preferences: IUserPreferences;
 }
 
 const UserSchema: Schema = new Schema({
   email: { type: String, required: true, unique: true },
+  emailVerified: { type: Boolean, default: false },
   password: { type: String, required: true },
+  role: { type: String, enum: ["user", "admin"], default: "user" },
+  preferences: {
+    defaultModel: String,
+    decoder: {
+      temp: Number,
+      top_k: Number,
+      top_p: Number,
+      n_predict: Number,
+      repeat_penalty: Number,
+    },
+    systemPrompt: String,
+  },
 });
 
 export default mongoose.model<IUser>("User", UserSchema);
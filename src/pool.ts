@@ -0,0 +1,412 @@
+import { Bot, BotPromptOptions, BotState, PromptCancelledError } from "./bot";
+import LLM, { ILLM, getDownloadSource } from "./models/llm.model";
+import logger from "./logger";
+
+const restartDelay = parseInt(process.env.BOT_RESTART_DELAY_MS || "1000", 10);
+const maxRestartDelay = parseInt(
+  process.env.BOT_RESTART_MAX_DELAY_MS || "60000",
+  10
+);
+
+// the states of a pool, from the most to the least useful
+const POOL_STATES: BotState[] = [
+  "ready",
+  "busy",
+  "starting",
+  "downloading",
+  "crashed",
+  "closed",
+];
+
+export interface WorkerStatus {
+  id: number;
+  model: string;
+  state: BotState;
+  open: boolean;
+  busy: boolean;
+  restarts: number;
+  /** Why the worker last crashed or failed to start, if it did. */
+  lastError?: string;
+  /** When a crashed worker is restarted. */
+  restartAt?: Date;
+}
+
+export interface PoolStatus {
+  /** The most useful state of a worker: `ready` if any worker can take a prompt right away. */
+  state: BotState;
+  size: number;
+  models: string[];
+  workers: WorkerStatus[];
+}
+
+interface Worker {
+  id: number;
+  bot: Bot;
+  busy: boolean;
+  restarts: number;
+  /** The number of crashes since the worker last ran for longer than the maximum restart delay. */
+  crashes: number;
+  readyAt?: number;
+  restartTimer?: NodeJS.Timeout;
+  restartAt?: Date;
+  /** The model the worker switches to once its current prompt is answered. */
+  next?: ILLM;
+}
+
+/**
+ * Builds the prompt once a worker is picked, for prompts that depend on the model answering them.
+ */
+export type PromptBuilder = (model: string) => string | Promise<string>;
+
+interface Waiter {
+  model?: string;
+  resolve: (worker: Worker) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * The BotPool class keeps several bot processes alive, possibly running different models, and hands
+ * each prompt to an idle one. Workers that exit unexpectedly or fail to start are restarted after
+ * `BOT_RESTART_DELAY_MS` milliseconds, doubling with every crash in a row up to
+ * `BOT_RESTART_MAX_DELAY_MS`.
+ */
+export class BotPool {
+  private workers: Worker[];
+  private waiters: Waiter[] = [];
+  private closed = true;
+
+  /**
+   * This is a constructor function that creates one worker per model name.
+   * @param {string[]} models - The model of each worker. A model can be listed more than once to run
+   * several workers for it.
+   */
+  constructor(models: string[]) {
+    if (!models.length) {
+      throw new Error("A bot pool needs at least one worker.");
+    }
+
+    this.workers = models.map((model, id) => {
+      const worker = { id, busy: false, restarts: 0, crashes: 0 } as Worker;
+      this.setBot(worker, new Bot(model));
+      return worker;
+    });
+  }
+
+  /**
+   * The number of workers in the pool.
+   */
+  get size(): number {
+    return this.workers.length;
+  }
+
+  /**
+   * The distinct models run by the workers.
+   */
+  get models(): string[] {
+    return [...new Set(this.workers.map((worker) => worker.bot.modelName))];
+  }
+
+  /**
+   * This function configures the backend of every worker from the `LLM` document of its model, and
+   * downloads the files needed by every model in the pool from their catalog source.
+   * @throws If a model of the pool is not in the catalog.
+   */
+  async init(): Promise<void> {
+    const llms = await LLM.find({ name: { $in: this.models } }).select(
+      "+backend.apiKey"
+    );
+
+    for (const worker of this.workers) {
+      const llm = llms.find((it) => it.name === worker.bot.modelName);
+      if (!llm) {
+        throw new Error(`Model ${worker.bot.modelName} is not in the catalog.`);
+      }
+
+      worker.bot.close();
+      this.setBot(worker, this.createBot(llm));
+    }
+
+    // workers of the same model share their files, so only initialize one of them
+    const byModel = new Map<string, Bot>();
+    for (const worker of this.workers) {
+      byModel.set(worker.bot.modelName, worker.bot);
+    }
+
+    for (const bot of byModel.values()) {
+      await bot.init();
+    }
+  }
+
+  /**
+   * This function switches every worker of the pool to a model of the catalog while the server runs.
+   * The files of the model are downloaded first. Idle workers switch right away, busy workers once
+   * their prompt is answered. Prompts waiting for a model that no worker runs anymore are rejected.
+   * @param {ILLM} llm - The catalog entry of the model, with its API key.
+   */
+  async activate(llm: ILLM): Promise<void> {
+    await this.createBot(llm).init();
+
+    const switching: Promise<void>[] = [];
+    for (const worker of this.workers) {
+      if (worker.busy) {
+        worker.next = llm;
+      } else {
+        switching.push(this.switchModel(worker, llm));
+      }
+    }
+
+    for (const waiter of this.waiters) {
+      if (waiter.model && waiter.model !== llm.name) {
+        this.waiters = this.waiters.filter((it) => it !== waiter);
+        waiter.reject(new Error(`No worker runs model ${waiter.model}.`));
+      }
+    }
+
+    await Promise.all(switching);
+    logger.info(`Bot pool switched to model ${llm.name}.`);
+  }
+
+  /**
+   * This function opens every worker of the pool. Workers that fail to start are restarted later.
+   */
+  async open(): Promise<void> {
+    this.closed = false;
+    const results = await Promise.allSettled(
+      this.workers.map((worker) => worker.bot.open())
+    );
+
+    results.forEach((result, index) => {
+      if (result.status === "rejected") {
+        this.failedToStart(this.workers[index], result.reason);
+      }
+    });
+
+    const failed = results.filter((it) => it.status === "rejected").length;
+    logger.info(
+      `Bot pool open with ${this.size - failed} of ${this.size} workers.`
+    );
+  }
+
+  /**
+   * This function closes every worker of the pool.
+   */
+  close(): void {
+    this.closed = true;
+    for (const worker of this.workers) {
+      this.cancelRestart(worker);
+      worker.bot.close();
+    }
+
+    for (const waiter of this.waiters.splice(0)) {
+      waiter.reject(new Error("Bot pool closed."));
+    }
+  }
+
+  /**
+   * This function sends a prompt to the first idle worker, waiting for one to become idle if they are
+   * all busy.
+   * @param {string | PromptBuilder} prompt - The prompt to send, or a function building it for the
+   * model of the worker.
+   * @param [options.model] - Only use a worker running this model.
+   * @param options - The other options are passed to `Bot.prompt`. The signal also cancels waiting
+   * for an idle worker.
+   * @returns A Promise that resolves with the response of the worker.
+   */
+  async prompt(
+    prompt: string | PromptBuilder,
+    options: BotPromptOptions & { model?: string } = {}
+  ): Promise<string> {
+    const { model, ...promptOptions } = options;
+
+    if (this.closed) {
+      throw new Error("Bot is not initialized.");
+    }
+
+    if (model && !this.models.includes(model)) {
+      throw new Error(`No worker runs model ${model}.`);
+    }
+
+    const worker = await this.acquire(model, options.signal);
+    try {
+      const text =
+        typeof prompt === "string"
+          ? prompt
+          : await prompt(worker.bot.modelName);
+      return await worker.bot.prompt(text, promptOptions);
+    } finally {
+      this.release(worker);
+    }
+  }
+
+  /**
+   * This function returns the state of the pool and of each of its workers.
+   */
+  getStatus(): PoolStatus {
+    const workers = this.workers.map(
+      ({ id, bot, busy, restarts, restartAt }): WorkerStatus => ({
+        id,
+        model: bot.modelName,
+        state: busy ? "busy" : bot.status,
+        open: bot.isOpen,
+        busy,
+        restarts,
+        lastError: bot.lastError,
+        restartAt,
+      })
+    );
+
+    return {
+      state:
+        POOL_STATES.find((state) =>
+          workers.some((worker) => worker.state === state)
+        ) || "closed",
+      size: this.size,
+      models: this.models,
+      workers,
+    };
+  }
+
+  private createBot(llm: ILLM): Bot {
+    return new Bot(
+      llm.name,
+      llm.decoder || {},
+      llm.backend,
+      getDownloadSource(llm)
+    );
+  }
+
+  private async switchModel(worker: Worker, llm: ILLM): Promise<void> {
+    worker.next = undefined;
+    worker.crashes = 0;
+    this.cancelRestart(worker);
+    worker.bot.close();
+    this.setBot(worker, this.createBot(llm));
+
+    if (!this.closed) {
+      // the ready event hands the worker to the next waiting prompt
+      await worker.bot.open();
+    }
+  }
+
+  private setBot(worker: Worker, bot: Bot): void {
+    worker.bot?.removeAllListeners();
+    worker.bot = bot;
+
+    bot.on("exit", () => this.restart(worker));
+    bot.on("ready", () => {
+      worker.readyAt = Date.now();
+      if (!worker.busy) {
+        this.release(worker);
+      }
+    });
+  }
+
+  private acquire(model?: string, signal?: AbortSignal): Promise<Worker> {
+    if (signal?.aborted) {
+      return Promise.reject(new PromptCancelledError());
+    }
+
+    const worker = this.workers.find(
+      (it) =>
+        !it.busy && it.bot.isOpen && (!model || it.bot.modelName === model)
+    );
+
+    if (worker) {
+      worker.busy = true;
+      return Promise.resolve(worker);
+    }
+
+    return new Promise((resolve, reject) => {
+      const waiter: Waiter = {
+        model,
+        resolve: (worker) => {
+          signal?.removeEventListener("abort", onAbort);
+          resolve(worker);
+        },
+        reject,
+      };
+
+      const onAbort = () => {
+        this.waiters = this.waiters.filter((it) => it !== waiter);
+        reject(new PromptCancelledError());
+      };
+
+      signal?.addEventListener("abort", onAbort);
+      this.waiters.push(waiter);
+    });
+  }
+
+  private release(worker: Worker): void {
+    worker.busy = false;
+
+    if (worker.next) {
+      this.switchModel(worker, worker.next).catch((error) =>
+        logger.error(error)
+      );
+      return;
+    }
+
+    if (!worker.bot.isOpen) {
+      return;
+    }
+
+    const index = this.waiters.findIndex(
+      (waiter) => !waiter.model || waiter.model === worker.bot.modelName
+    );
+
+    if (index !== -1) {
+      const [waiter] = this.waiters.splice(index, 1);
+      worker.busy = true;
+      waiter.resolve(worker);
+    }
+  }
+
+  /**
+   * This function restarts a worker that crashed or failed to start, once its restart delay passed.
+   * A worker that ran for longer than the maximum delay starts over at the shortest delay.
+   */
+  private restart(worker: Worker): void {
+    if (this.closed || worker.restartTimer) {
+      return;
+    }
+
+    if (worker.readyAt && Date.now() - worker.readyAt > maxRestartDelay) {
+      worker.crashes = 0;
+    }
+    worker.readyAt = undefined;
+
+    const delay = Math.min(maxRestartDelay, restartDelay * 2 ** worker.crashes);
+    worker.crashes++;
+    worker.restartAt = new Date(Date.now() + delay);
+    logger.info(
+      `Restarting bot worker ${worker.id} (${worker.bot.modelName}) in ${delay}ms.`
+    );
+
+    worker.restartTimer = setTimeout(async () => {
+      this.cancelRestart(worker);
+      worker.restarts++;
+
+      try {
+        // the ready event hands the worker to the next waiting prompt
+        await worker.bot.open();
+      } catch (error) {
+        this.failedToStart(worker, error);
+      }
+    }, delay);
+  }
+
+  private failedToStart(worker: Worker, error: unknown): void {
+    logger.error(
+      `Bot worker ${worker.id} (${worker.bot.modelName}) failed to start: ${
+        (error as Error).message
+      }`
+    );
+    this.restart(worker);
+  }
+
+  private cancelRestart(worker: Worker): void {
+    clearTimeout(worker.restartTimer);
+    worker.restartTimer = undefined;
+    worker.restartAt = undefined;
+  }
+}
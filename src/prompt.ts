@@ -0,0 +1,116 @@
+import {
+  PROMPT_TEMPLATES,
+  PromptTemplateName,
+} from "../shared/schemas/llm.schema";
+
+export { PROMPT_TEMPLATES, PromptTemplateName };
+
+export interface ChatTurn {
+  role: "user" | "assistant";
+  content: string;
+}
+
+export interface BuildPromptOptions {
+  /** The format expected by the model. */
+  template: PromptTemplateName;
+  /** Instructions placed before the conversation. */
+  systemPrompt?: string;
+  /** The earlier messages of the conversation, oldest first. */
+  history?: ChatTurn[];
+  /** The new message of the user. */
+  message: string;
+  /** The size of the context window of the model, in tokens. */
+  contextTokens: number;
+  /** The number of tokens of the context window kept free for the answer. */
+  answerTokens?: number;
+}
+
+interface Template {
+  system: (content: string) => string;
+  user: (content: string) => string;
+  assistant: (content: string) => string;
+  /** Opens the answer of the assistant. */
+  answer: string;
+}
+
+const templates: Record<PromptTemplateName, Template> = {
+  raw: {
+    system: (content) => `${content}\n\n`,
+    user: (content) => `User: ${content}\n`,
+    assistant: (content) => `Assistant: ${content}\n`,
+    answer: "Assistant:",
+  },
+  alpaca: {
+    system: (content) => `${content}\n\n`,
+    user: (content) => `### Instruction:\n${content}\n\n`,
+    assistant: (content) => `### Response:\n${content}\n\n`,
+    answer: "### Response:\n",
+  },
+  chatml: {
+    system: (content) => `<|im_start|>system\n${content}<|im_end|>\n`,
+    user: (content) => `<|im_start|>user\n${content}<|im_end|>\n`,
+    assistant: (content) => `<|im_start|>assistant\n${content}<|im_end|>\n`,
+    answer: "<|im_start|>assistant\n",
+  },
+  vicuna: {
+    system: (content) => `${content}\n\n`,
+    user: (content) => `USER: ${content}\n`,
+    assistant: (content) => `ASSISTANT: ${content}</s>\n`,
+    answer: "ASSISTANT:",
+  },
+};
+
+/**
+ * This function estimates the number of tokens of a text. Tokenizers differ between models, so it
+ * uses the common approximation of four characters per token.
+ * @param {string} text - The text to measure.
+ */
+export const estimateTokens = (text: string): number =>
+  Math.ceil(text.length / 4);
+
+/**
+ * This function assembles the prompt sent to a model from the system prompt, the earlier turns of
+ * the conversation and the new message, in the template of the model. The oldest turns are left
+ * out until the prompt fits in the context window, while the system prompt and the new message are
+ * always kept. Without a system prompt or history, the raw template sends the message unchanged, so
+ * models applying their own template, like gpt4all, see what the user typed.
+ * @param {BuildPromptOptions} options - The parts of the prompt and the limits of the model.
+ * @returns The prompt to send to the model.
+ */
+export const buildPrompt = ({
+  template: name,
+  systemPrompt,
+  history = [],
+  message,
+  contextTokens,
+  answerTokens = 256,
+}: BuildPromptOptions): string => {
+  const template = templates[name] || templates.raw;
+
+  if (name === "raw" && !systemPrompt && !history.length) {
+    return message;
+  }
+
+  const head = systemPrompt ? template.system(systemPrompt) : "";
+  const tail = template.user(message) + template.answer;
+  let budget =
+    contextTokens - answerTokens - estimateTokens(head) - estimateTokens(tail);
+
+  // add turns from the newest back, so the most recent context survives truncation
+  const turns: string[] = [];
+  for (let i = history.length - 1; i >= 0; i--) {
+    const { role, content } = history[i];
+    const turn =
+      role === "user" ? template.user(content) : template.assistant(content);
+    const tokens = estimateTokens(turn);
+
+    if (tokens > budget) {
+      break;
+    }
+
+    budget -= tokens;
+    turns.unshift(turn);
+  }
+
+  return head + turns.join("") + tail;
+};
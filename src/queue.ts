@@ -0,0 +1,223 @@
+import { randomUUID } from "crypto";
+import { PromptCancelledError } from "./bot";
+
+/**
+ * Error thrown when a request cannot be added to the queue, either because the queue is full or
+ * because the user already has too many requests waiting.
+ */
+export class QueueFullError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "QueueFullError";
+  }
+}
+
+export interface PromptQueueOptions {
+  /** The maximum number of requests waiting in the queue. */
+  maxLength: number;
+  /** The maximum number of requests a single user can have waiting or running. */
+  maxPerUser: number;
+  /** The number of requests that are run at the same time. */
+  concurrency?: number;
+}
+
+export interface QueuedRequest {
+  id: string;
+  userId: string;
+  enqueuedAt: Date;
+  /** 0 while the request is running, otherwise its 1-based place in the queue. */
+  position: number;
+}
+
+interface QueueEntry {
+  id: string;
+  userId: string;
+  enqueuedAt: Date;
+  controller: AbortController;
+  run: () => Promise<void>;
+  reject: (error: Error) => void;
+}
+
+/**
+ * The PromptQueue class runs prompt requests in FIFO order, so requests never use the bot at the
+ * same time and every request can report where it is in the queue.
+ */
+export class PromptQueue {
+  private pending: QueueEntry[] = [];
+  private running = new Map<string, QueueEntry>();
+  private idleListeners: (() => void)[] = [];
+  private maxLength: number;
+  private maxPerUser: number;
+  private concurrency: number;
+
+  constructor({ maxLength, maxPerUser, concurrency = 1 }: PromptQueueOptions) {
+    this.maxLength = maxLength;
+    this.maxPerUser = maxPerUser;
+    this.concurrency = concurrency;
+  }
+
+  /**
+   * The number of requests waiting to be run.
+   */
+  get length(): number {
+    return this.pending.length;
+  }
+
+  /**
+   * This function adds a request to the end of the queue.
+   * @param {string} userId - The id of the user the request belongs to.
+   * @param task - The function doing the actual work, called once the request reaches the front of
+   * the queue with a signal that is aborted when the request is cancelled.
+   * @returns The id of the request, its position in the queue and a promise settling with the
+   * result of the task.
+   * @throws {QueueFullError} If the queue or the user's share of it is full.
+   */
+  enqueue<T>(
+    userId: string,
+    task: (signal: AbortSignal) => Promise<T>
+  ): { id: string; position: number; result: Promise<T> } {
+    if (this.pending.length >= this.maxLength) {
+      throw new QueueFullError(
+        "The prompt queue is full, please try again later."
+      );
+    }
+
+    if (this.countByUser(userId) >= this.maxPerUser) {
+      throw new QueueFullError(
+        `You can not have more than ${this.maxPerUser} prompts in the queue.`
+      );
+    }
+
+    const id = randomUUID();
+    const controller = new AbortController();
+    const result = new Promise<T>((resolve, reject) => {
+      this.pending.push({
+        id,
+        userId,
+        enqueuedAt: new Date(),
+        controller,
+        run: () =>
+          Promise.resolve()
+            .then(() => task(controller.signal))
+            .then(resolve, reject),
+        reject,
+      });
+    });
+
+    this.next();
+
+    return { id, position: this.getPosition(id), result };
+  }
+
+  /**
+   * This function cancels a request. A waiting request is removed from the queue and a running
+   * request has its signal aborted; either way its result rejects with a `PromptCancelledError`.
+   * @param {string} id - The id returned by `enqueue`.
+   * @returns Whether a waiting or running request with this id was found.
+   */
+  cancel(id: string): boolean {
+    const running = this.running.get(id);
+    if (running) {
+      running.controller.abort();
+      return true;
+    }
+
+    const index = this.pending.findIndex((entry) => entry.id === id);
+    if (index === -1) {
+      return false;
+    }
+
+    const [entry] = this.pending.splice(index, 1);
+    entry.controller.abort();
+    entry.reject(new PromptCancelledError());
+    return true;
+  }
+
+  /**
+   * This function waits until every waiting and running request is finished. Requests still
+   * unfinished after the timeout are cancelled.
+   * @param {number} timeout - The number of milliseconds to wait before cancelling the requests.
+   * @returns A Promise that resolves with whether every request finished before the timeout.
+   */
+  async drain(timeout: number): Promise<boolean> {
+    const idle = new Promise<void>((resolve) => {
+      if (!this.running.size && !this.pending.length) {
+        resolve();
+      } else {
+        this.idleListeners.push(resolve);
+      }
+    });
+
+    let timeoutId: NodeJS.Timeout | undefined;
+    const finished = await Promise.race([
+      idle.then(() => true),
+      new Promise<boolean>((resolve) => {
+        timeoutId = setTimeout(() => resolve(false), timeout);
+      }),
+    ]);
+    clearTimeout(timeoutId);
+
+    if (!finished) {
+      for (const id of [...this.pending, ...this.running.values()].map(
+        (entry) => entry.id
+      )) {
+        this.cancel(id);
+      }
+      await idle;
+    }
+
+    return finished;
+  }
+
+  /**
+   * This function returns the position of a request.
+   * @param {string} id - The id returned by `enqueue`.
+   * @returns 0 if the request is running, its 1-based place in the queue if it is waiting, or -1 if
+   * the request is unknown or already finished.
+   */
+  getPosition(id: string): number {
+    if (this.running.has(id)) {
+      return 0;
+    }
+
+    const index = this.pending.findIndex((entry) => entry.id === id);
+    return index === -1 ? -1 : index + 1;
+  }
+
+  /**
+   * This function lists the running and waiting requests of a user.
+   * @param {string} userId - The id of the user.
+   */
+  getRequests(userId: string): QueuedRequest[] {
+    return [...this.running.values(), ...this.pending]
+      .filter((entry) => entry.userId === userId)
+      .map(({ id, enqueuedAt }) => ({
+        id,
+        userId,
+        enqueuedAt,
+        position: this.getPosition(id),
+      }));
+  }
+
+  private countByUser(userId: string): number {
+    return [...this.running.values(), ...this.pending].filter(
+      (entry) => entry.userId === userId
+    ).length;
+  }
+
+  private next(): void {
+    while (this.running.size < this.concurrency && this.pending.length) {
+      const entry = this.pending.shift() as QueueEntry;
+      this.running.set(entry.id, entry);
+
+      entry.run().finally(() => {
+        this.running.delete(entry.id);
+        this.next();
+
+        if (!this.running.size && !this.pending.length) {
+          this.idleListeners.splice(0).forEach((resolve) => resolve());
+        }
+      });
+    }
+  }
+}
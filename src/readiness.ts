@@ -0,0 +1,82 @@
+import mongoose from "mongoose";
+import { pool } from "./controllers/bot.controller";
+
+// how long clients wait before retrying when there is no better estimate, in seconds
+const RETRY_AFTER = 5;
+const DOWNLOAD_RETRY_AFTER = 60;
+
+/**
+ * Why requests cannot be served right now, and when to try again.
+ */
+export interface Unavailability {
+  message: string;
+  /** The number of seconds after which the request can be tried again. */
+  retryAfter: number;
+}
+
+let shuttingDown = false;
+
+/**
+ * This function marks the server as shutting down, so it stops taking new requests.
+ */
+export const startShutdown = (): void => {
+  shuttingDown = true;
+};
+
+/**
+ * This function checks whether the server is shutting down.
+ */
+export const isShuttingDown = (): boolean => shuttingDown;
+
+/**
+ * This function tells why the server cannot serve requests: it is shutting down, or it is not
+ * connected to MongoDB yet.
+ * @returns Why requests cannot be served, or `undefined` if they can.
+ */
+export const getServerUnavailability = (): Unavailability | undefined => {
+  if (shuttingDown) {
+    return { message: "Server is shutting down.", retryAfter: RETRY_AFTER };
+  }
+
+  if (mongoose.connection.readyState !== 1) {
+    return { message: "Server is starting.", retryAfter: RETRY_AFTER };
+  }
+
+  return undefined;
+};
+
+/**
+ * This function tells why the bot pool cannot take prompts: none of its workers is ready or busy.
+ * @returns Why prompts cannot be served, with the time until the next worker restart if there is
+ * one, or `undefined` if they can.
+ */
+export const getBotUnavailability = (): Unavailability | undefined => {
+  const { state, workers } = pool.getStatus();
+
+  switch (state) {
+    case "ready":
+    case "busy":
+      return undefined;
+    case "downloading":
+      return {
+        message: "Bot is downloading its model.",
+        retryAfter: DOWNLOAD_RETRY_AFTER,
+      };
+    case "starting":
+      return { message: "Bot is starting.", retryAfter: RETRY_AFTER };
+    case "crashed": {
+      const restartAt = Math.min(
+        ...workers.map((worker) => worker.restartAt?.getTime() ?? Infinity)
+      );
+      return {
+        message: "Bot is restarting.",
+        retryAfter:
+          restartAt === Infinity
+            ? RETRY_AFTER
+            : Math.max(1, Math.ceil((restartAt - Date.now()) / 1000)),
+      };
+    }
+    default:
+      return { message: "Bot is not open.", retryAfter: DOWNLOAD_RETRY_AFTER };
+  }
+};
@@ -1,20 +1,64 @@
 import { Router } from "express";
-import { authMiddleware } from "../middlewares/auth.middleware";
 import {
+  allowApiKey,
+  authMiddleware,
+  requireRole,
+} from "../middlewares/auth.middleware";
+import { limitPrompts } from "../middlewares/rateLimit.middleware";
+import { requireBot } from "../middlewares/readiness.middleware";
+import { validate } from "../middlewares/validate.middleware";
+import {
+  cancelPromptParamsSchema,
+  promptSchema,
+} from "../../shared/schemas/bot.schema";
+import {
+  cancelPrompt,
   closeBot,
   getBot,
+  getQueue,
   openBot,
   promptBot,
+  promptBotStream,
 } from "../controllers/bot.controller";
 
 const router = Router();
 
-router.get("/", authMiddleware, getBot);
+router.get("/", allowApiKey("prompt"), authMiddleware, getBot);
+
+router.get("/status", allowApiKey("prompt"), authMiddleware, getBot);
+
+router.get("/queue", allowApiKey("prompt"), authMiddleware, getQueue);
+
+router.post("/open", authMiddleware, requireRole("admin"), openBot);
+
+router.post("/close", authMiddleware, requireRole("admin"), closeBot);
 
-router.post("/open", authMiddleware, openBot);
+router.post(
+  "/prompt",
+  allowApiKey("prompt"),
+  authMiddleware,
+  validate(promptSchema),
+  requireBot,
+  limitPrompts,
+  promptBot
+);
 
-router.post("/close", authMiddleware, closeBot);
+router.post(
+  "/prompt/stream",
+  allowApiKey("prompt"),
+  authMiddleware,
+  validate(promptSchema),
+  requireBot,
+  limitPrompts,
+  promptBotStream
+);
 
-router.post("/prompt", authMiddleware, promptBot);
+router.post(
+  "/prompt/:requestId/cancel",
+  allowApiKey("prompt"),
+  authMiddleware,
+  validate(cancelPromptParamsSchema, "params"),
+  cancelPrompt
+);
 
 export default router;
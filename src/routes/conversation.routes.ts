@@ -0,0 +1,56 @@
+import { Router } from "express";
+import { allowApiKey, authMiddleware } from "../middlewares/auth.middleware";
+import { validate } from "../middlewares/validate.middleware";
+import { conversationSchema } from "../../shared/schemas/conversation.schema";
+import { idParamsSchema } from "../../shared/schemas/common.schema";
+import {
+  createConversation,
+  deleteConversation,
+  getConversationById,
+  getConversations,
+  updateConversation,
+} from "../controllers/conversation.controller";
+
+const router = Router();
+
+// Create a new conversation
+router.post(
+  "/",
+  allowApiKey("conversations"),
+  authMiddleware,
+  validate(conversationSchema),
+  createConversation
+);
+
+// Get the conversations of the user
+router.get("/", allowApiKey("conversations"), authMiddleware, getConversations);
+
+// Get a single conversation with its messages
+router.get(
+  "/:id",
+  allowApiKey("conversations"),
+  authMiddleware,
+  validate(idParamsSchema, "params"),
+  getConversationById
+);
+
+// Rename a conversation or change its model
+router.put(
+  "/:id",
+  allowApiKey("conversations"),
+  authMiddleware,
+  validate(idParamsSchema, "params"),
+  validate(conversationSchema),
+  updateConversation
+);
+
+// Delete a conversation
+router.delete(
+  "/:id",
+  allowApiKey("conversations"),
+  authMiddleware,
+  validate(idParamsSchema, "params"),
+  deleteConversation
+);
+
+export default router;
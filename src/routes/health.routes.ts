@@ -0,0 +1,10 @@
+import { Router } from "express";
+import { getHealth, getReadiness } from "../controllers/health.controller";
+
+const router = Router();
+
+router.get("/", getHealth);
+
+router.get("/ready", getReadiness);
+
+export default router;
@@ -1,23 +1,86 @@
 // routes/llm.routes.ts
 import { Router } from "express";
-import { authMiddleware } from "../middlewares/auth.middleware";
 import {
+  allowApiKey,
+  authMiddleware,
+  requireRole,
+} from "../middlewares/auth.middleware";
+import {
+  activateModel,
   createModel,
+  deleteModel,
   getModelById,
+  getModelDownload,
   getModels,
+  startModelDownload,
   updateModel,
 } from "../controllers/llm.controller";
+import { validate } from "../middlewares/validate.middleware";
+import {
+  createModelSchema,
+  updateModelSchema,
+} from "../../shared/schemas/llm.schema";
+import { idParamsSchema } from "../../shared/schemas/common.schema";
 
 const router = Router();
 
-router.get("/", authMiddleware, getModels);
+router.get("/", allowApiKey("read-models"), authMiddleware, getModels);
+
+router.get(
+  "/:id",
+  allowApiKey("read-models"),
+  authMiddleware,
+  validate(idParamsSchema, "params"),
+  getModelById
+);
+
+router.get(
+  "/:id/download",
+  allowApiKey("read-models"),
+  authMiddleware,
+  validate(idParamsSchema, "params"),
+  getModelDownload
+);
+
+router.post(
+  "/:id/download",
+  authMiddleware,
+  requireRole("admin"),
+  validate(idParamsSchema, "params"),
+  startModelDownload
+);
 
-router.get("/:id", authMiddleware, getModelById);
+router.post(
+  "/:id/activate",
+  authMiddleware,
+  requireRole("admin"),
+  validate(idParamsSchema, "params"),
+  activateModel
+);
 
-router.post("/", authMiddleware, createModel);
+router.post(
+  "/",
+  authMiddleware,
+  requireRole("admin"),
+  validate(createModelSchema),
+  createModel
+);
 
-router.put("/:id", authMiddleware, updateModel);
+router.put(
+  "/:id",
+  authMiddleware,
+  requireRole("admin"),
+  validate(idParamsSchema, "params"),
+  validate(updateModelSchema),
+  updateModel
+);
 
-router.delete("/:id", authMiddleware);
+router.delete(
+  "/:id",
+  authMiddleware,
+  requireRole("admin"),
+  validate(idParamsSchema, "params"),
+  deleteModel
+);
 
 export default router;
@@ -0,0 +1,27 @@
+import { Router } from "express";
+import { allowApiKey, authMiddleware } from "../middlewares/auth.middleware";
+import {
+  getPreferences,
+  updatePreferences,
+} from "../controllers/preferences.controller";
+import { getMyUsage } from "../controllers/usage.controller";
+import { validate } from "../middlewares/validate.middleware";
+import { preferencesSchema } from "../../shared/schemas/preferences.schema";
+
+const router = Router();
+
+// Get the preferences of the user
+router.get("/preferences", authMiddleware, getPreferences);
+
+// Update the preferences of the user
+router.put(
+  "/preferences",
+  authMiddleware,
+  validate(preferencesSchema),
+  updatePreferences
+);
+
+// Get the usage and remaining quotas of the user
+router.get("/usage", allowApiKey("prompt"), authMiddleware, getMyUsage);
+
+export default router;
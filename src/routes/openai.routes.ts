@@ -0,0 +1,43 @@
+import { Router } from "express";
+import { allowApiKey, authMiddleware } from "../middlewares/auth.middleware";
+import { limitPrompts } from "../middlewares/rateLimit.middleware";
+import { requireBot } from "../middlewares/readiness.middleware";
+import { validate } from "../middlewares/validate.middleware";
+import {
+  chatCompletionSchema,
+  modelParamsSchema,
+} from "../../shared/schemas/openai.schema";
+import {
+  createChatCompletion,
+  listModels,
+  retrieveModel,
+} from "../controllers/openai.controller";
+
+const router = Router();
+
+router.get(
+  "/models",
+  allowApiKey("prompt", "read-models"),
+  authMiddleware,
+  listModels
+);
+
+router.get(
+  "/models/:model",
+  allowApiKey("prompt", "read-models"),
+  authMiddleware,
+  validate(modelParamsSchema, "params"),
+  retrieveModel
+);
+
+router.post(
+  "/chat/completions",
+  allowApiKey("prompt"),
+  authMiddleware,
+  validate(chatCompletionSchema),
+  requireBot,
+  limitPrompts,
+  createChatCompletion
+);
+
+export default router;
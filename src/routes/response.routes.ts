@@ -1,5 +1,9 @@
 import { Router } from "express";
-import { authMiddleware } from "../middlewares/auth.middleware";
+import {
+  allowApiKey,
+  authMiddleware,
+  requireRole,
+} from "../middlewares/auth.middleware";
 import {
   createResponse,
   getResponses,
@@ -8,25 +12,69 @@ import {
   deleteResponse,
   getResponsesByUserId,
 } from "../controllers/response.controller";
+import { validate } from "../middlewares/validate.middleware";
+import {
+  createResponseSchema,
+  updateResponseSchema,
+  userResponsesParamsSchema,
+} from "../../shared/schemas/response.schema";
+import { idParamsSchema } from "../../shared/schemas/common.schema";
 
 const router = Router();
 
 // Create a new response
-router.post("/", authMiddleware, createResponse);
+router.post(
+  "/",
+  allowApiKey("write-responses"),
+  authMiddleware,
+  validate(createResponseSchema),
+  createResponse
+);
 
-// Get all responses
-router.get("/", authMiddleware, getResponses);
+// Get the responses of all users
+router.get(
+  "/",
+  allowApiKey("read-responses"),
+  authMiddleware,
+  requireRole("admin"),
+  getResponses
+);
 
 // Get a single response by ID
-router.get("/:id", authMiddleware, getResponseById);
+router.get(
+  "/:id",
+  allowApiKey("read-responses"),
+  authMiddleware,
+  validate(idParamsSchema, "params"),
+  getResponseById
+);
 
 // Update a response by ID
-router.put("/:id", authMiddleware, updateResponse);
+router.put(
+  "/:id",
+  allowApiKey("write-responses"),
+  authMiddleware,
+  validate(idParamsSchema, "params"),
+  validate(updateResponseSchema),
+  updateResponse
+);
 
 // Delete a response by ID
-router.delete("/:id", authMiddleware, deleteResponse);
+router.delete(
+  "/:id",
+  allowApiKey("write-responses"),
+  authMiddleware,
+  validate(idParamsSchema, "params"),
+  deleteResponse
+);
 
 // Get responses by user ID
-router.get("/user/:userId", authMiddleware, getResponsesByUserId);
+router.get(
+  "/user/:userId",
+  allowApiKey("read-responses"),
+  authMiddleware,
+  validate(userResponsesParamsSchema, "params"),
+  getResponsesByUserId
+);
 
 export default router;
@@ -1,28 +1,99 @@
 import { Router } from "express";
 import { authMiddleware } from "../middlewares/auth.middleware";
+import { validate } from "../middlewares/validate.middleware";
 import {
   changeEmail,
   changePassword,
+  forgotPassword,
   login,
+  logout,
+  logoutAll,
+  refresh,
   register,
-  validate,
+  resetPassword,
+  validate as validateToken,
+  verifyEmail,
 } from "../controllers/auth.controller";
+import {
+  createKey,
+  getKeys,
+  revokeKey,
+} from "../controllers/apiKey.controller";
+import {
+  changeEmailSchema,
+  changePasswordSchema,
+  forgotPasswordSchema,
+  loginSchema,
+  refreshSchema,
+  registerSchema,
+  resetPasswordSchema,
+  verifyEmailSchema,
+} from "../../shared/schemas/auth.schema";
+import { createApiKeySchema } from "../../shared/schemas/apiKey.schema";
+import { idParamsSchema } from "../../shared/schemas/common.schema";
 
 const router = Router();
 
 // Validate a jwt
-router.post("/validate", authMiddleware, validate);
+router.post("/validate", authMiddleware, validateToken);
 
 // Login an existing user
-router.post("/login", login);
+router.post("/login", validate(loginSchema), login);
 
 // Register a new user
-router.post("/register", register);
+router.post("/register", validate(registerSchema), register);
+
+// Exchange a refresh token for new tokens
+router.post("/refresh", validate(refreshSchema), refresh);
+
+// Log out of the current session
+router.post("/logout", authMiddleware, logout);
+
+// Log out of all sessions
+router.post("/logout-all", authMiddleware, logoutAll);
 
 // Change email
-router.put("/change-email", authMiddleware, changeEmail);
+router.put(
+  "/change-email",
+  authMiddleware,
+  validate(changeEmailSchema),
+  changeEmail
+);
 
 // Change password
-router.put("/change-password", authMiddleware, changePassword);
+router.put(
+  "/change-password",
+  authMiddleware,
+  validate(changePasswordSchema),
+  changePassword
+);
+
+// Send a password reset token to an email
+router.post("/forgot-password", validate(forgotPasswordSchema), forgotPassword);
+
+// Set a new password with a password reset token
+router.post("/reset-password", validate(resetPasswordSchema), resetPassword);
+
+// Verify an email with an email verification token
+router.post("/verify-email", validate(verifyEmailSchema), verifyEmail);
+
+// List the API keys of the user
+router.get("/api-keys", authMiddleware, getKeys);
+
+// Create an API key
+router.post(
+  "/api-keys",
+  authMiddleware,
+  validate(createApiKeySchema),
+  createKey
+);
+
+// Revoke an API key
+router.delete(
+  "/api-keys/:id",
+  authMiddleware,
+  validate(idParamsSchema, "params"),
+  revokeKey
+);
 
 export default router;
@@ -0,0 +1,158 @@
+import { createHash, randomBytes } from "crypto";
+import { Request } from "express";
+import jwt from "jsonwebtoken";
+import { isValidObjectId } from "mongoose";
+import Session, { ISession } from "./models/session.model";
+import logger from "./logger";
+
+const accessTokenTtl = process.env.ACCESS_TOKEN_TTL || "15m";
+const refreshTokenTtlDays = parseInt(
+  process.env.REFRESH_TOKEN_TTL_DAYS || "30",
+  10
+);
+
+/**
+ * Error thrown when a refresh token is unknown, expired, revoked or was already used.
+ */
+export class InvalidRefreshTokenError extends Error {
+  constructor() {
+    super("Refresh token is not valid.");
+    this.name = "InvalidRefreshTokenError";
+  }
+}
+
+export interface AuthTokens {
+  /** The short-lived JWT sent with every request. */
+  token: string;
+  /** The long-lived token exchanged for new tokens at `/api/auth/refresh`. */
+  refreshToken: string;
+}
+
+const hashToken = (secret: string): string =>
+  createHash("sha256").update(secret).digest("hex");
+
+const getExpiry = (): Date =>
+  new Date(Date.now() + refreshTokenTtlDays * 24 * 60 * 60 * 1000);
+
+const newRefreshSecret = () => randomBytes(32).toString("hex");
+
+/**
+ * This function signs an access token for a session and builds its refresh token. The refresh token
+ * starts with the session id, so a token that was already rotated can be traced to its session.
+ */
+const signTokens = (session: ISession, secret: string): AuthTokens => ({
+  token: jwt.sign(
+    { id: String(session.userId), sid: session.id },
+    process.env.JWT_SECRET || "",
+    { expiresIn: accessTokenTtl }
+  ),
+  refreshToken: `${session.id}.${secret}`,
+});
+
+/**
+ * This function starts a session for a user who just logged in or registered.
+ * @param {string} userId - The id of the user.
+ * @param {Request} req - The login request, whose user agent and IP are saved with the session.
+ * @returns A Promise that resolves with the access and refresh tokens of the session.
+ */
+export const createSession = async (
+  userId: string,
+  req: Request
+): Promise<AuthTokens> => {
+  const secret = newRefreshSecret();
+  const session = await Session.create({
+    userId,
+    refreshTokenHash: hashToken(secret),
+    expiresAt: getExpiry(),
+    userAgent: req.header("User-Agent"),
+    ip: req.ip,
+  });
+
+  return signTokens(session, secret);
+};
+
+/**
+ * This function exchanges a refresh token for new tokens. Every refresh token can only be used once.
+ * Using one again means it was stolen, so the whole session is revoked. The token is checked and
+ * replaced in a single update, so of two requests using the same token at once, only one succeeds.
+ * @param {string} refreshToken - The refresh token of the session.
+ * @returns A Promise that resolves with the new access and refresh tokens.
+ * @throws {InvalidRefreshTokenError} If the token is not valid.
+ */
+export const refreshSession = async (
+  refreshToken: string
+): Promise<AuthTokens> => {
+  const [sessionId, secret] = String(refreshToken).split(".");
+
+  if (!secret || !isValidObjectId(sessionId)) {
+    throw new InvalidRefreshTokenError();
+  }
+
+  const newSecret = newRefreshSecret();
+  const session = await Session.findOneAndUpdate(
+    {
+      _id: sessionId,
+      refreshTokenHash: hashToken(secret),
+      revokedAt: { $exists: false },
+      expiresAt: { $gt: new Date() },
+    },
+    {
+      $set: { refreshTokenHash: hashToken(newSecret), expiresAt: getExpiry() },
+    },
+    { new: true }
+  );
+
+  if (!session) {
+    // the token is unknown, already used, or its session ended
+    logger.warn(`Refresh token rejected for session ${sessionId}, revoking.`);
+    await revokeSession(sessionId);
+    throw new InvalidRefreshTokenError();
+  }
+
+  return signTokens(session, newSecret);
+};
+
+/**
+ * This function revokes a session, so neither its access nor its refresh token are accepted anymore.
+ * @param {string} sessionId - The id of the session.
+ */
+export const revokeSession = async (sessionId: string): Promise<void> => {
+  await Session.updateOne(
+    { _id: sessionId, revokedAt: { $exists: false } },
+    { revokedAt: new Date() }
+  );
+};
+
+/**
+ * This function revokes every session of a user, logging them out on all devices.
+ * @param {string} userId - The id of the user.
+ * @param {string} [exceptSessionId] - A session that stays active, like the one of the request.
+ * @returns A Promise that resolves with the number of sessions revoked.
+ */
+export const revokeAllSessions = async (
+  userId: string,
+  exceptSessionId?: string
+): Promise<number> => {
+  const { modifiedCount } = await Session.updateMany(
+    {
+      userId,
+      revokedAt: { $exists: false },
+      ...(exceptSessionId && { _id: { $ne: exceptSessionId } }),
+    },
+    { revokedAt: new Date() }
+  );
+
+  return modifiedCount;
+};
+
+/**
+ * This function checks whether a session can still be used.
+ * @param {string} sessionId - The id of the session.
+ */
+export const isSessionActive = async (sessionId: string): Promise<boolean> =>
+  isValidObjectId(sessionId) &&
+  !!(await Session.exists({
+    _id: sessionId,
+    revokedAt: { $exists: false },
+    expiresAt: { $gt: new Date() },
+  }));
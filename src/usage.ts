@@ -0,0 +1,326 @@
+import Usage from "./models/usage.model";
+
+const userRateLimit = parseInt(process.env.RATE_LIMIT_PER_MINUTE || "20", 10);
+const apiKeyRateLimit = parseInt(
+  process.env.API_KEY_RATE_LIMIT_PER_MINUTE || "60",
+  10
+);
+const dailyPromptQuota = parseInt(process.env.DAILY_PROMPT_QUOTA || "500", 10);
+const apiKeyDailyPromptQuota = parseInt(
+  process.env.API_KEY_DAILY_PROMPT_QUOTA || "250",
+  10
+);
+const dailyTokenQuota = parseInt(process.env.DAILY_TOKEN_QUOTA || "100000", 10);
+
+const RATE_LIMIT_WINDOW = 60 * 1000;
+const DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Counts requests per key in fixed windows, kept in memory.
+ */
+export class RateLimiter {
+  private windows = new Map<string, { count: number; resetAt: number }>();
+
+  constructor(private window: number, private now: () => number = Date.now) {}
+
+  /**
+   * This function counts a request of a key, unless the key reached its limit in the current window.
+   * @param {string} key - Who made the request.
+   * @param {number} limit - The number of requests allowed per window.
+   * @returns Whether the request is allowed, the requests remaining and the milliseconds until the
+   * window resets.
+   */
+  consume(
+    key: string,
+    limit: number
+  ): { allowed: boolean; remaining: number; reset: number } {
+    const now = this.now();
+    let window = this.windows.get(key);
+
+    if (!window || window.resetAt <= now) {
+      this.sweep(now);
+      window = { count: 0, resetAt: now + this.window };
+      this.windows.set(key, window);
+    }
+
+    const allowed = window.count < limit;
+    if (allowed) {
+      window.count++;
+    }
+
+    return {
+      allowed,
+      remaining: limit - window.count,
+      reset: window.resetAt - now,
+    };
+  }
+
+  /**
+   * This function gives back a request counted in the current window of a key.
+   * @param {string} key - Who made the request.
+   */
+  release(key: string) {
+    const window = this.windows.get(key);
+
+    if (window && window.resetAt > this.now() && window.count > 0) {
+      window.count--;
+    }
+  }
+
+  /** Forgets the windows that ended. */
+  private sweep(now: number) {
+    for (const [key, { resetAt }] of this.windows) {
+      if (resetAt <= now) {
+        this.windows.delete(key);
+      }
+    }
+  }
+}
+
+const rateLimiter = new RateLimiter(RATE_LIMIT_WINDOW);
+
+/**
+ * Who sends a prompt: a user, or a user through one of their API keys.
+ */
+export interface Principal {
+  id: string;
+  apiKeyId?: string;
+}
+
+export interface PromptAllowance {
+  allowed: boolean;
+  /** Why the prompt is not allowed. */
+  message?: string;
+  /** The number of seconds until the prompt would be allowed. */
+  retryAfter?: number;
+  /** The `RateLimit-*` headers describing the rate limit. */
+  headers: Record<string, string>;
+}
+
+export interface UsageSummary {
+  day: string;
+  prompts: number;
+  characters: number;
+  /** The generated characters converted to tokens, at four characters per token. */
+  tokens: number;
+  /** The daily quotas, `null` when unlimited. */
+  quota: { prompts: number | null; tokens: number | null };
+  /** What is left of the daily quotas, `null` when unlimited. */
+  remaining: { prompts: number | null; tokens: number | null };
+  /** When the daily usage starts over, at midnight UTC. */
+  resetsAt: Date;
+}
+
+const getDay = (date = new Date()): string => date.toISOString().slice(0, 10);
+
+const getNextDay = (): Date => {
+  const date = new Date();
+  date.setUTCHours(24, 0, 0, 0);
+  return date;
+};
+
+const getRemaining = (quota: number, used: number): number | null =>
+  quota > 0 ? Math.max(0, quota - used) : null;
+
+/**
+ * This function returns how much of their daily quotas a user used today.
+ * @param {string} userId - The id of the user.
+ */
+export const getUsage = async (userId: string): Promise<UsageSummary> => {
+  const day = getDay();
+  const usage = await Usage.findOne({ userId, day });
+  const prompts = usage?.prompts || 0;
+  const characters = usage?.characters || 0;
+  const tokens = Math.ceil(characters / 4);
+
+  return {
+    day,
+    prompts,
+    characters,
+    tokens,
+    quota: {
+      prompts: dailyPromptQuota > 0 ? dailyPromptQuota : null,
+      tokens: dailyTokenQuota > 0 ? dailyTokenQuota : null,
+    },
+    remaining: {
+      prompts: getRemaining(dailyPromptQuota, prompts),
+      tokens: getRemaining(dailyTokenQuota, tokens),
+    },
+    resetsAt: getNextDay(),
+  };
+};
+
+/**
+ * This function counts the generated characters of an answer in the usage of today. The prompt itself
+ * was counted when it was allowed.
+ * @param {string} userId - The id of the user who sent the prompt.
+ * @param {number} characters - The number of characters in the answer.
+ */
+export const recordUsage = async (
+  userId: string,
+  characters: number
+): Promise<void> => {
+  await Usage.updateOne(
+    { userId, day: getDay() },
+    { $inc: { characters } },
+    { upsert: true }
+  );
+};
+
+/**
+ * This function counts a prompt in the usage of today, unless it would exceed the daily prompt quota
+ * of the user or of their API key. The check and the count are a single update, so concurrent
+ * prompts cannot exceed the quotas.
+ * @param {Principal} principal - Who sends the prompt.
+ * @returns A Promise that resolves with whether the prompt was counted.
+ */
+const countPrompt = async ({ id, apiKeyId }: Principal): Promise<boolean> => {
+  const day = getDay();
+  const filter: Record<string, unknown> = { userId: id, day };
+  const increments: Record<string, number> = { prompts: 1 };
+
+  if (dailyPromptQuota > 0) {
+    filter.prompts = { $lt: dailyPromptQuota };
+  }
+  if (apiKeyId) {
+    increments[`apiKeys.${apiKeyId}`] = 1;
+    if (apiKeyDailyPromptQuota > 0) {
+      // the count of a key is missing until its first prompt of the day
+      filter[`apiKeys.${apiKeyId}`] = {
+        $not: { $gte: apiKeyDailyPromptQuota },
+      };
+    }
+  }
+
+  // the usage of today has to exist for the conditional update to match it
+  await Usage.updateOne(
+    { userId: id, day },
+    { $setOnInsert: { prompts: 0, characters: 0 } },
+    { upsert: true }
+  );
+  const { modifiedCount } = await Usage.updateOne(filter, {
+    $inc: increments,
+  });
+
+  return modifiedCount === 1;
+};
+
+/**
+ * This function returns the rate limit of a user, or of the API key they use.
+ * @param {Principal} principal - Who sends the prompt.
+ */
+const getRateLimit = ({ id, apiKeyId }: Principal) =>
+  apiKeyId
+    ? { key: `key:${apiKeyId}`, limit: apiKeyRateLimit }
+    : { key: `user:${id}`, limit: userRateLimit };
+
+/**
+ * This function refuses a prompt because a daily quota is used up, with the `RateLimit-*` headers of
+ * the quota.
+ * @param {string} message - Which quota is used up.
+ * @param {number} quota - The daily quota.
+ * @param {Date} resetsAt - When the quota starts over.
+ */
+const quotaExceeded = (
+  message: string,
+  quota: number,
+  resetsAt: Date
+): PromptAllowance => {
+  const retryAfter = Math.ceil((resetsAt.getTime() - Date.now()) / 1000);
+
+  return {
+    allowed: false,
+    message,
+    retryAfter,
+    headers: {
+      "RateLimit-Policy": `${quota};w=${DAY / 1000}`,
+      "RateLimit-Limit": String(quota),
+      "RateLimit-Remaining": "0",
+      "RateLimit-Reset": String(retryAfter),
+    },
+  };
+};
+
+/**
+ * This function checks whether a user can send a prompt, against the daily quotas of the user and API
+ * key and their rate limit. Allowed prompts count against the rate limit and the daily prompt quotas
+ * right away, so prompts that are still queued cannot exceed them.
+ * @param {Principal} principal - Who sends the prompt.
+ * @returns A Promise that resolves with whether the prompt is allowed, and the rate limit headers.
+ */
+export const checkPromptAllowance = async (
+  principal: Principal
+): Promise<PromptAllowance> => {
+  const { remaining, resetsAt } = await getUsage(principal.id);
+
+  if (remaining.prompts === 0) {
+    return quotaExceeded(
+      "Daily prompt quota exceeded.",
+      dailyPromptQuota,
+      resetsAt
+    );
+  }
+  if (remaining.tokens === 0) {
+    return quotaExceeded(
+      "Daily token quota exceeded.",
+      dailyTokenQuota,
+      resetsAt
+    );
+  }
+
+  const { key, limit } = getRateLimit(principal);
+  const { allowed, remaining: left, reset } = rateLimiter.consume(key, limit);
+  const resetSeconds = Math.ceil(reset / 1000);
+
+  if (allowed && !(await countPrompt(principal))) {
+    // another prompt used up the quota of the user since it was read, else the one of the API key
+    const usage = await getUsage(principal.id);
+    return usage.remaining.prompts === 0
+      ? quotaExceeded(
+          "Daily prompt quota exceeded.",
+          dailyPromptQuota,
+          usage.resetsAt
+        )
+      : quotaExceeded(
+          "Daily prompt quota of the API key exceeded.",
+          apiKeyDailyPromptQuota,
+          usage.resetsAt
+        );
+  }
+
+  return {
+    allowed,
+    message: allowed ? undefined : "Too many prompts. Try again later.",
+    retryAfter: allowed ? undefined : resetSeconds,
+    headers: {
+      "RateLimit-Policy": `${limit};w=${RATE_LIMIT_WINDOW / 1000}`,
+      "RateLimit-Limit": String(limit),
+      "RateLimit-Remaining": String(left),
+      "RateLimit-Reset": String(resetSeconds),
+    },
+  };
+};
+
+/**
+ * This function gives back a prompt counted by `checkPromptAllowance` that was refused before it was
+ * queued, because its model is not running, its conversation was not found or the queue is full, so
+ * it does not use up the rate limit and daily prompt quotas.
+ * @param {Principal} principal - Who sent the prompt.
+ */
+export const refundPrompt = async (principal: Principal): Promise<void> => {
+  const { id, apiKeyId } = principal;
+  const filter: Record<string, unknown> = {
+    userId: id,
+    day: getDay(),
+    prompts: { $gt: 0 },
+  };
+  const decrements: Record<string, number> = { prompts: -1 };
+
+  if (apiKeyId) {
+    filter[`apiKeys.${apiKeyId}`] = { $gt: 0 };
+    decrements[`apiKeys.${apiKeyId}`] = -1;
+  }
+
+  rateLimiter.release(getRateLimit(principal).key);
+  await Usage.updateOne(filter, { $inc: decrements });
+};